@@ -0,0 +1,66 @@
+// benchmarks/localsCapture.ts
+// Compares eager locals capture (an object literal per call) with lazy capture (a thunk that is only
+// called for sampled records). Run with `npm run bench`.
+import { performance } from 'perf_hooks';
+import { DynamicLogger, LoggerConfig } from '../src/dynamicLogger';
+
+const iterations = 200_000;
+
+const configs: Record<string, Partial<LoggerConfig>> = {
+    UNSAMPLED: { VariablesToLog: ['userId', 'cart'], SamplingRate: 0, PrefixMessage: '' },
+    SAMPLED: { VariablesToLog: ['userId', 'cart'], SamplingRate: 1, PrefixMessage: '' },
+};
+
+const dLogger = DynamicLogger.DLInitializer(
+    async key => configs[key] ?? null,
+    () => {} // Formatting still runs for sampled records, only the output is discarded
+);
+
+// Called through a bound reference, so the transformer leaves the hand-written locals alone
+const log = dLogger.dynamicLog.bind(dLogger);
+
+async function run(key: string, lazy: boolean): Promise<number> {
+    const userId = 'user-42';
+    const sessionId = 'c0ffee';
+    const cart = { items: [{ sku: 'A-1', qty: 2 }, { sku: 'B-7', qty: 1 }], total: 31.5 };
+    const retries = 3;
+    const region = 'eu-west-1';
+    const flags = ['beta', 'fast-checkout'];
+    const startedAt = Date.now();
+    const headers = { 'user-agent': 'bench', accept: 'application/json' };
+
+    const start = performance.now();
+    for (let i = 0; i < iterations; i++) {
+        if (lazy) {
+            await log(key, 'bench', () => ({ userId, sessionId, cart, retries, region, flags, startedAt, headers, i }));
+        } else {
+            await log(key, 'bench', { userId, sessionId, cart, retries, region, flags, startedAt, headers, i });
+        }
+    }
+    return performance.now() - start;
+}
+
+async function main(): Promise<void> {
+    // Warm up the config cache and the JIT
+    for (const key of Object.keys(configs)) {
+        await run(key, false);
+        await run(key, true);
+    }
+
+    const results = [];
+    for (const key of Object.keys(configs)) {
+        for (const lazy of [false, true]) {
+            const elapsedMs = await run(key, lazy);
+            results.push({
+                key,
+                mode: lazy ? 'lazy' : 'eager',
+                'ns/call': Math.round((elapsedMs * 1e6) / iterations),
+                'calls/s': Math.round(iterations / (elapsedMs / 1000)),
+            });
+        }
+    }
+    console.table(results);
+    await dLogger.shutdown();
+}
+
+main();
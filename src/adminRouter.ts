@@ -0,0 +1,128 @@
+// adminRouter.ts
+import express, { NextFunction, Request, Response, Router } from 'express';
+import path from 'path';
+import type { LoggerConfig } from './dynamicLogger';
+import type { ConfigStore } from './configStore';
+import { validateLoggerConfig } from './configSchema';
+
+export interface AdminRouterOptions {
+    store: ConfigStore;
+    // Checked on every request; mount the router behind your own auth middleware or pass this
+    authorize?: (request: Request) => boolean | Promise<boolean>;
+    liveLogPath?: string;  // Path of a LiveLogSink, shown on the dashboard. Without it, the live log panel is hidden
+    dashboard?: boolean;   // Serve the dashboard page at the router's root, default true
+}
+
+/**
+ * Express router for reading and changing configs at runtime:
+ *     GET    /configs          all configs by key
+ *     GET    /configs/:key     one config (404 if there is none)
+ *     PUT    /configs/:key     create or replace a config (201 when created)
+ *     PATCH  /configs/:key     change some fields of an existing config, e.g. { "SamplingRate": 0 }
+ *     DELETE /configs/:key     remove a config (204, or 404 if there was none)
+ *     POST   /validate         check a config without saving it
+ * Keys go through encodeURIComponent, so generated keys like 'src/app.ts:handler:1' work.
+ * Invalid configs are rejected with 400 and `{ errors: [...] }`.
+ */
+export function createAdminRouter(options: AdminRouterOptions): Router {
+    const { store } = options;
+    const router = express.Router();
+    router.use(express.json({ limit: '100kb' }));
+
+    if (options.authorize) {
+        const authorize = options.authorize;
+        router.use((req: Request, res: Response, next: NextFunction) => {
+            Promise.resolve(authorize(req)).then(allowed => {
+                if (allowed) {
+                    next();
+                } else {
+                    res.status(401).json({ errors: ['Unauthorized.'] });
+                }
+            }, next);
+        });
+    }
+
+    // Express 4 doesn't pass rejected promises on to the error handler by itself
+    const handle = (handler: (req: Request, res: Response) => Promise<void>) =>
+        (req: Request, res: Response, next: NextFunction) => { handler(req, res).catch(next); };
+
+    if (options.dashboard ?? true) {
+        router.get('/', (req: Request, res: Response) => {
+            if (!req.originalUrl.split('?')[0].endsWith('/')) {
+                res.redirect(`${req.baseUrl}/`); // The page uses URLs relative to the router
+                return;
+            }
+            res.sendFile(path.join(__dirname, 'public', 'index.html'));
+        });
+        router.get('/info', (req: Request, res: Response) => {
+            res.json({ liveLogPath: options.liveLogPath ?? null });
+        });
+    }
+
+    router.get('/configs', handle(async (req, res) => {
+        res.json(await store.list());
+    }));
+
+    router.get('/configs/:key', handle(async (req, res) => {
+        const config = await store.get(req.params.key);
+        if (!config) {
+            res.status(404).json({ errors: [`No config for key '${req.params.key}'.`] });
+            return;
+        }
+        res.json(config);
+    }));
+
+    router.put('/configs/:key', handle(async (req, res) => {
+        const validation = validateLoggerConfig(req.body);
+        if (!validation.valid) {
+            res.status(400).json({ errors: validation.errors });
+            return;
+        }
+        const existed = (await store.get(req.params.key)) !== null;
+        await store.set(req.params.key, req.body as Partial<LoggerConfig>);
+        res.status(existed ? 200 : 201).json(req.body);
+    }));
+
+    router.patch('/configs/:key', handle(async (req, res) => {
+        const existing = await store.get(req.params.key);
+        if (!existing) {
+            res.status(404).json({ errors: [`No config for key '${req.params.key}'.`] });
+            return;
+        }
+        const body = req.body;
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            res.status(400).json({ errors: ['The patch must be an object.'] });
+            return;
+        }
+        // A field set to `null` is removed from the config
+        const merged: Record<string, unknown> = { ...existing };
+        for (const [field, value] of Object.entries(body as Record<string, unknown>)) {
+            if (value === null) {
+                delete merged[field];
+            } else {
+                merged[field] = value;
+            }
+        }
+        const validation = validateLoggerConfig(merged);
+        if (!validation.valid) {
+            res.status(400).json({ errors: validation.errors });
+            return;
+        }
+        await store.set(req.params.key, merged as Partial<LoggerConfig>);
+        res.json(merged);
+    }));
+
+    router.delete('/configs/:key', handle(async (req, res) => {
+        if (!(await store.delete(req.params.key))) {
+            res.status(404).json({ errors: [`No config for key '${req.params.key}'.`] });
+            return;
+        }
+        res.status(204).end();
+    }));
+
+    router.post('/validate', (req: Request, res: Response) => {
+        res.json(validateLoggerConfig(req.body));
+    });
+
+    return router;
+}
@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+// bin/check-configs.ts
+// Checks logger configs against the log point manifest written by the transformer, for use in CI:
+//     dynamic-logger-check-configs --manifest dist/dynamic-log-manifest.json --configs configs.json
+//         [--ignore-keys 'DYNAMIC_*,TMP_*'] [--context-variables requestId,userId] [--namespaces billing,shipping]
+// The configs file is a JSON object mapping uniqueKeys to configs. Exits with 1 if any issue is found.
+import fs from 'fs';
+import { checkConfigsAgainstManifest, loadLogPointManifest } from '../logPointManifest';
+
+function parseArgs(argv: string[]): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i += 2) {
+        const name = argv[i];
+        const value = argv[i + 1];
+        if (!name.startsWith('--') || value === undefined) {
+            throw new Error(`Unexpected argument '${name}'.`);
+        }
+        args[name.slice(2)] = value;
+    }
+    return args;
+}
+
+const splitList = (value: string | undefined) => value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+
+function main(): number {
+    let args: Record<string, string>;
+    try {
+        args = parseArgs(process.argv.slice(2));
+    } catch (e: any) {
+        console.error(e.message);
+        return 2;
+    }
+    if (!args.manifest || !args.configs) {
+        console.error('Usage: dynamic-logger-check-configs --manifest <manifest.json> --configs <configs.json> [--ignore-keys <patterns>] [--context-variables <names>] [--namespaces <names>]');
+        return 2;
+    }
+
+    const manifest = loadLogPointManifest(args.manifest);
+    const configs = JSON.parse(fs.readFileSync(args.configs, 'utf8'));
+    const issues = checkConfigsAgainstManifest(configs, manifest, {
+        ignoreKeys: splitList(args['ignore-keys']),
+        contextVariables: splitList(args['context-variables']),
+        namespaces: splitList(args['namespaces']),
+    });
+
+    issues.forEach(issue => console.error(`${args.configs}: ${issue.message}`));
+    console.log(`Checked ${Object.keys(configs).length} config(s) against ${manifest.logPoints.length} log point(s): ${issues.length} issue(s).`);
+    return issues.length > 0 ? 1 : 0;
+}
+
+process.exitCode = main();
@@ -0,0 +1,44 @@
+// bundlers/esbuild-plugin.ts
+// Usage: esbuild.build({ ..., plugins: [dynamicLoggerEsbuildPlugin()] })
+import fs from 'fs';
+import { BundlerPluginOptions, getTransformSession, toInlineSourceMap } from './shared';
+
+// The parts of esbuild's plugin API that are used, so esbuild doesn't have to be a dependency
+interface EsbuildPluginBuild {
+    onLoad(
+        options: { filter: RegExp },
+        callback: (args: { path: string }) => Promise<EsbuildOnLoadResult | undefined> | EsbuildOnLoadResult | undefined
+    ): void;
+}
+
+interface EsbuildOnLoadResult {
+    contents: string;
+    loader: 'js' | 'jsx';
+    errors?: { text: string }[];
+}
+
+export interface EsbuildPlugin {
+    name: string;
+    setup(build: EsbuildPluginBuild): void;
+}
+
+export function dynamicLoggerEsbuildPlugin(options: BundlerPluginOptions = {}): EsbuildPlugin {
+    return {
+        name: 'dynamic-logger',
+        setup(build) {
+            const session = getTransformSession(options);
+            build.onLoad({ filter: options.include ?? /\.[cm]?tsx?$/ }, async args => {
+                const code = await fs.promises.readFile(args.path, 'utf8');
+                const result = session.transform(args.path, code);
+                if (!result) {
+                    return undefined; // Let esbuild load the file as usual
+                }
+                return {
+                    contents: toInlineSourceMap(result),
+                    loader: args.path.endsWith('x') ? 'jsx' : 'js',
+                    errors: result.errors.map(text => ({ text })),
+                };
+            });
+        },
+    };
+}
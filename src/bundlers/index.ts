@@ -0,0 +1,9 @@
+// bundlers/index.ts
+export { dynamicLoggerEsbuildPlugin } from './esbuild-plugin';
+export type { EsbuildPlugin } from './esbuild-plugin';
+export { dynamicLoggerRollupPlugin, dynamicLoggerVitePlugin } from './rollup-plugin';
+export type { RollupPlugin } from './rollup-plugin';
+export { dynamicLoggerTsNodeTransformers } from './ts-node';
+export type { BundlerPluginOptions } from './shared';
+export { TransformSession } from '../transformers/transform-session';
+export type { TransformSessionOptions, TransformResult } from '../transformers/transform-session';
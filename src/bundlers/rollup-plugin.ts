@@ -0,0 +1,36 @@
+// bundlers/rollup-plugin.ts
+// Usage: plugins: [dynamicLoggerRollupPlugin(), ...] (before any other TypeScript plugin), or
+// plugins: [dynamicLoggerVitePlugin()] in a Vite config.
+import { BundlerPluginOptions, getTransformSession } from './shared';
+
+// The parts of Rollup's plugin API that are used, so Rollup doesn't have to be a dependency
+interface RollupPluginContext {
+    error(message: string): never;
+}
+
+export interface RollupPlugin {
+    name: string;
+    enforce?: 'pre'; // Vite only: run before Vite's own (esbuild) TypeScript transform
+    transform(this: RollupPluginContext, code: string, id: string): { code: string; map?: string } | null;
+}
+
+export function dynamicLoggerRollupPlugin(options: BundlerPluginOptions = {}): RollupPlugin {
+    return {
+        name: 'dynamic-logger',
+        transform(code, id) {
+            const fileName = id.split('?')[0]; // Vite appends queries such as '?used'
+            const result = getTransformSession(options).transform(fileName, code);
+            if (!result) {
+                return null;
+            }
+            if (result.errors.length > 0) {
+                this.error(result.errors.join('\n'));
+            }
+            return { code: result.code, map: result.map };
+        },
+    };
+}
+
+export function dynamicLoggerVitePlugin(options: BundlerPluginOptions = {}): RollupPlugin {
+    return { ...dynamicLoggerRollupPlugin(options), enforce: 'pre' };
+}
@@ -0,0 +1,26 @@
+// bundlers/shared.ts
+import path from 'path';
+import { TransformSession, TransformSessionOptions, TransformResult } from '../transformers/transform-session';
+
+export type BundlerPluginOptions = TransformSessionOptions;
+
+// One session per project, so loaders that are instantiated per file still share the language service
+const sessions = new Map<string, TransformSession>();
+
+export function getTransformSession(options: BundlerPluginOptions = {}): TransformSession {
+    const cwd = options.cwd ?? process.cwd();
+    const id = JSON.stringify([path.resolve(cwd, options.tsconfig ?? ''), options.include?.source, options.exclude?.source, options.transformerOptions]);
+    let session = sessions.get(id);
+    if (!session) {
+        session = new TransformSession({ ...options, cwd });
+        sessions.set(id, session);
+    }
+    return session;
+}
+
+export function toInlineSourceMap(result: TransformResult): string {
+    if (!result.map) {
+        return result.code;
+    }
+    return `${result.code}\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(result.map).toString('base64')}`;
+}
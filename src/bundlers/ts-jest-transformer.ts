@@ -0,0 +1,25 @@
+// bundlers/ts-jest-transformer.ts
+// Usage in the ts-jest options:
+//     astTransformers: { before: [{ path: 'dynamic-logger/dist/bundlers/ts-jest-transformer', options: {} }] }
+import * as ts from 'typescript';
+import {
+    createLogCallTransformer,
+    createTransformerState,
+    resolveTransformerOptions,
+    TransformerOptions,
+    TransformerState,
+} from '../transformers/log-call-transformer';
+
+export const name = 'dynamic-logger';
+export const version = 1; // ts-jest includes it in its cache key
+
+let state: TransformerState | undefined;
+
+export function factory(tsCompiler: { program?: ts.Program }, options: Partial<TransformerOptions> = {}): ts.TransformerFactory<ts.SourceFile> {
+    if (!tsCompiler.program) {
+        throw new Error("DynamicLogger: The ts-jest transformer needs the type checker; disable 'isolatedModules'.");
+    }
+    const resolved = resolveTransformerOptions(options);
+    state ??= createTransformerState(resolved);
+    return createLogCallTransformer(tsCompiler.program, resolved, undefined, state);
+}
@@ -0,0 +1,20 @@
+// bundlers/ts-node.ts
+// ts-node and ts-jest compile file by file with their own program, so they get the transformer itself
+// rather than a TransformSession. Both need a type-checking program (not transpile-only / isolatedModules).
+import * as ts from 'typescript';
+import {
+    createLogCallTransformer,
+    createTransformerState,
+    resolveTransformerOptions,
+    TransformerOptions,
+} from '../transformers/log-call-transformer';
+
+/**
+ * For ts-node's `transformers` option:
+ *     require('ts-node').register({ transformers: dynamicLoggerTsNodeTransformers() })
+ */
+export function dynamicLoggerTsNodeTransformers(options: Partial<TransformerOptions> = {}): (program: ts.Program) => ts.CustomTransformers {
+    const resolved = resolveTransformerOptions(options);
+    const state = createTransformerState(resolved); // Shared, so duplicate keys are found across files
+    return program => ({ before: [createLogCallTransformer(program, resolved, undefined, state)] });
+}
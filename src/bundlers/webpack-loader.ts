@@ -0,0 +1,22 @@
+// bundlers/webpack-loader.ts
+// Usage: { test: /\.tsx?$/, exclude: /node_modules/, loader: 'dynamic-logger/dist/bundlers/webpack-loader', options: {} }
+// The loader outputs JavaScript, so it replaces ts-loader (or runs before babel-loader, which then sees JavaScript).
+import { BundlerPluginOptions, getTransformSession } from './shared';
+
+// The parts of webpack's loader context that are used, so webpack doesn't have to be a dependency
+interface WebpackLoaderContext {
+    resourcePath: string;
+    getOptions?(): BundlerPluginOptions;
+    emitError(error: Error): void;
+    callback(error: Error | null, content?: string, sourceMap?: object): void;
+}
+
+export default function dynamicLoggerLoader(this: WebpackLoaderContext, source: string, inputSourceMap?: object): void {
+    const result = getTransformSession(this.getOptions?.() ?? {}).transform(this.resourcePath, source);
+    if (!result) {
+        this.callback(null, source, inputSourceMap);
+        return;
+    }
+    result.errors.forEach(message => this.emitError(new Error(message)));
+    this.callback(null, result.code, result.map ? JSON.parse(result.map) : undefined);
+}
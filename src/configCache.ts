@@ -0,0 +1,124 @@
+// configCache.ts
+import type { LoggerConfig } from './dynamicLogger';
+
+type ConfigLoader = (uniqueKey: string) => Promise<Partial<LoggerConfig> | null>;
+
+export interface ConfigCacheOptions {
+    ttlMs: number;                  // How long a fetched config is considered fresh
+    staleWhileRevalidateMs: number; // How long an expired config may still be served while refreshing
+    negativeTtlMs: number;          // How long a `null` (no config) result is remembered
+    verbose?: boolean;
+}
+
+interface CacheEntry {
+    value: Partial<LoggerConfig> | null;
+    freshUntil: number;
+    staleUntil: number;
+}
+
+/**
+ * Per-key cache in front of the user's ConfigFetcher.
+ * - Fresh entries are served without calling the loader.
+ * - Expired entries inside the stale-while-revalidate window are served immediately
+ *   while a single background refresh runs.
+ * - Concurrent misses for the same key share one in-flight load.
+ */
+export class ConfigCache {
+    private entries = new Map<string, CacheEntry>();
+    private inFlight = new Map<string, Promise<Partial<LoggerConfig> | null>>();
+    // Bumped on invalidation so that loads started before it don't repopulate the cache:
+    // per key by invalidate(key), for all keys by invalidateAll()
+    private generation = 0;
+    private keyGenerations = new Map<string, number>();
+
+    constructor(private loader: ConfigLoader, private options: ConfigCacheOptions) {}
+
+    public async get(uniqueKey: string): Promise<Partial<LoggerConfig> | null> {
+        const entry = this.entries.get(uniqueKey);
+        const now = Date.now();
+
+        if (entry && now < entry.freshUntil) {
+            return entry.value;
+        }
+
+        if (entry && now < entry.staleUntil) {
+            // Serve the stale value, refresh in the background. Failures keep the stale entry.
+            this.load(uniqueKey).catch((error: any) => {
+                if (this.options.verbose) {
+                    console.warn(`DynamicLogger: Background refresh failed for config key '${uniqueKey}': ${error.message}`);
+                }
+            });
+            return entry.value;
+        }
+
+        return this.load(uniqueKey);
+    }
+
+    /**
+     * Stores a config obtained from somewhere other than the loader (e.g. a pushed update).
+     * A load of the key that is still in flight can't overwrite it afterwards.
+     */
+    public set(uniqueKey: string, value: Partial<LoggerConfig> | null): void {
+        this.discardInFlight(uniqueKey);
+        this.entries.set(uniqueKey, this.createEntry(value));
+    }
+
+    public invalidate(uniqueKey: string): void {
+        this.entries.delete(uniqueKey);
+        this.discardInFlight(uniqueKey);
+    }
+
+    public invalidateAll(): void {
+        this.entries.clear();
+        this.inFlight.clear();
+        this.keyGenerations.clear();
+        this.generation++;
+    }
+
+    private discardInFlight(uniqueKey: string): void {
+        this.inFlight.delete(uniqueKey);
+        this.keyGenerations.set(uniqueKey, (this.keyGenerations.get(uniqueKey) ?? 0) + 1);
+    }
+
+    private load(uniqueKey: string): Promise<Partial<LoggerConfig> | null> {
+        const pending = this.inFlight.get(uniqueKey);
+        if (pending) {
+            return pending;
+        }
+
+        const generation = this.generation;
+        const keyGeneration = this.keyGenerations.get(uniqueKey);
+        const promise = this.loader(uniqueKey)
+            .then(value => {
+                if (generation === this.generation && keyGeneration === this.keyGenerations.get(uniqueKey)) {
+                    this.entries.set(uniqueKey, this.createEntry(value));
+                }
+                return value;
+            })
+            .finally(() => {
+                if (this.inFlight.get(uniqueKey) === promise) {
+                    this.inFlight.delete(uniqueKey);
+                }
+            });
+
+        this.inFlight.set(uniqueKey, promise);
+        return promise;
+    }
+
+    private createEntry(value: Partial<LoggerConfig> | null): CacheEntry {
+        const now = Date.now();
+        let ttlMs: number;
+        if (value === null) {
+            ttlMs = this.options.negativeTtlMs;
+        } else if (typeof value.CacheTtlMs === 'number' && value.CacheTtlMs >= 0) {
+            ttlMs = value.CacheTtlMs; // Per-key override from the config itself
+        } else {
+            ttlMs = this.options.ttlMs;
+        }
+        return {
+            value,
+            freshUntil: now + ttlMs,
+            staleUntil: now + ttlMs + (value === null ? 0 : this.options.staleWhileRevalidateMs),
+        };
+    }
+}
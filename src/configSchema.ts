@@ -0,0 +1,242 @@
+// configSchema.ts
+import type { LoggerConfig } from './dynamicLogger';
+import { isLogLevel, logLevels } from './levels';
+import { transpileSnippet } from './snippetTypeScript';
+import { validateTSCode } from './validators';
+import { parseVariablePath } from './variablePaths';
+
+export interface ConfigValidationOptions {
+    partial?: boolean;          // Allow leaving out the required fields (VariablesToLog, SamplingRate), e.g. for a patch
+    validateCustomCode?: boolean; // Run CustomLoggingCode through the snippet validator, default true
+}
+
+export interface ConfigValidationResult {
+    valid: boolean;
+    errors: string[]; // One message per problem, prefixed with the field name
+}
+
+export interface ConfigSanitizeResult {
+    config: Partial<LoggerConfig> | null; // Without the ignored fields, or null if the config is rejected
+    errors: string[];   // Why the config is rejected
+    warnings: string[]; // Fields that were ignored or repaired
+}
+
+type FieldCheck = (value: unknown) => string | undefined; // An error message, or undefined if valid
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const positiveNumber: FieldCheck = value =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? undefined : 'must be a positive number';
+
+const nonNegativeInteger: FieldCheck = value =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 ? undefined : 'must be a non-negative integer';
+
+const positiveInteger: FieldCheck = value =>
+    typeof value === 'number' && Number.isInteger(value) && value > 0 ? undefined : 'must be a positive integer';
+
+const logLevel: FieldCheck = value =>
+    isLogLevel(value) ? undefined : `must be one of ${logLevels.join(', ')}`;
+
+function variablePath(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+        return 'must be a string';
+    }
+    try {
+        parseVariablePath(value);
+        return undefined;
+    } catch (e: any) {
+        return e.message;
+    }
+}
+
+const fieldChecks: Record<keyof LoggerConfig, FieldCheck> = {
+    VariablesToLog: value => {
+        if (!isStringArray(value)) {
+            return 'must be an array of strings';
+        }
+        return value.map(variablePath).find(error => error !== undefined);
+    },
+    SamplingRate: value =>
+        typeof value === 'number' && value >= 0 && value <= 1 ? undefined : 'must be a number from 0 to 1',
+    PrefixMessage: value => typeof value === 'string' ? undefined : 'must be a string',
+    CustomLoggingCode: value => typeof value === 'string' ? undefined : 'must be a string',
+    CacheTtlMs: value =>
+        typeof value === 'number' && Number.isFinite(value) && value >= 0 ? undefined : 'must be a non-negative number',
+    Level: logLevel,
+    MinLevel: logLevel,
+    Tags: value => isStringArray(value) ? undefined : 'must be an array of strings',
+    MaxPerSecond: positiveNumber,
+    BurstSize: positiveNumber,
+    FirstN: nonNegativeInteger,
+    ThenEvery: positiveInteger, // Used as a modulus, so 0 would let nothing through
+    SampleBy: variablePath,
+    AlwaysLogWhen: value => {
+        if (!Array.isArray(value)) {
+            return 'must be an array of rules';
+        }
+        for (const [index, rule] of value.entries()) {
+            if (!rule || typeof rule !== 'object' || variablePath(rule.Variable) !== undefined) {
+                return `rule ${index} needs a valid 'Variable' path`;
+            }
+            if (!Array.isArray(rule.In) || !rule.In.every((item: unknown) => ['string', 'number', 'boolean'].includes(typeof item))) {
+                return `rule ${index} needs an 'In' array of strings, numbers or booleans`;
+            }
+        }
+        return undefined;
+    },
+    Redact: value => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return 'must be an object with optional Keys and Patterns';
+        }
+        const { Keys, Patterns } = value as Record<string, unknown>;
+        if (Keys !== undefined && !isStringArray(Keys)) {
+            return 'Keys must be an array of strings';
+        }
+        if (Patterns !== undefined && !isStringArray(Patterns)) {
+            return 'Patterns must be an array of strings';
+        }
+        for (const pattern of Patterns ?? []) {
+            try {
+                new RegExp(pattern);
+            } catch (e: any) {
+                return `Patterns contains an invalid regular expression: ${e.message}`;
+            }
+        }
+        return undefined;
+    },
+};
+
+const requiredFields: (keyof LoggerConfig)[] = ['VariablesToLog', 'SamplingRate'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// The type each field needs for the logger to use it at all. A value of the right type can still fail its check
+// in fieldChecks (e.g. out of range), which the logger survives by ignoring or repairing the field.
+const fieldTypes: Record<keyof LoggerConfig, { check: (value: unknown) => boolean; name: string }> = {
+    VariablesToLog: { check: isStringArray, name: 'an array of strings' },
+    SamplingRate: { check: isNumber, name: 'a number' },
+    PrefixMessage: { check: isString, name: 'a string' },
+    CustomLoggingCode: { check: isString, name: 'a string' },
+    CacheTtlMs: { check: isNumber, name: 'a number' },
+    Level: { check: isString, name: 'a string' },
+    MinLevel: { check: isString, name: 'a string' },
+    Tags: { check: isStringArray, name: 'an array of strings' },
+    MaxPerSecond: { check: isNumber, name: 'a number' },
+    BurstSize: { check: isNumber, name: 'a number' },
+    FirstN: { check: isNumber, name: 'a number' },
+    ThenEvery: { check: isNumber, name: 'a number' },
+    SampleBy: { check: isString, name: 'a string' },
+    AlwaysLogWhen: { check: Array.isArray, name: 'an array' },
+    Redact: { check: value => !!value && typeof value === 'object' && !Array.isArray(value), name: 'an object' },
+};
+
+// Required fields can't just be left out, so their invalid values are repaired instead
+const fieldRepairs: Partial<Record<keyof LoggerConfig, (value: any) => unknown>> = {
+    SamplingRate: (value: number) => Math.min(1, Math.max(0, value)),
+    VariablesToLog: (value: string[]) => value.filter(item => variablePath(item) === undefined),
+};
+
+/**
+ * Checks that a value is a well-formed LoggerConfig: known fields only, each with the right type and range.
+ * CustomLoggingCode is checked like at runtime (syntax and the security rules), except that the locals
+ * aren't known here, so unknown identifiers are allowed.
+ */
+export function validateLoggerConfig(value: unknown, options: ConfigValidationOptions = {}): ConfigValidationResult {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { valid: false, errors: ['The config must be an object.'] };
+    }
+    const config = value as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (!options.partial) {
+        for (const field of requiredFields) {
+            if (config[field] === undefined) {
+                errors.push(`${field}: is required`);
+            }
+        }
+    }
+    for (const [field, fieldValue] of Object.entries(config)) {
+        if (!Object.prototype.hasOwnProperty.call(fieldChecks, field)) {
+            errors.push(`${field}: is not a LoggerConfig field`);
+            continue;
+        }
+        if (fieldValue === undefined) {
+            continue;
+        }
+        const error = fieldChecks[field as keyof LoggerConfig](fieldValue);
+        if (error) {
+            errors.push(`${field}: ${error}`);
+        }
+    }
+
+    if ((options.validateCustomCode ?? true) && typeof config.CustomLoggingCode === 'string' && config.CustomLoggingCode.trim() !== '') {
+        const { js, violations } = transpileSnippet(config.CustomLoggingCode);
+        const allViolations = violations.length > 0 ? violations : validateTSCode(js).violations;
+        for (const violation of allViolations) {
+            errors.push(`CustomLoggingCode: ${violation.message} (${violation.location})`);
+        }
+    }
+
+    return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Checks a fetched config the way the logger uses it: a config that was written for a newer version, or
+ * with a mistake in one field, should not stop all logging for its key. Unknown fields and values that fail
+ * their check (out of range, an unknown level, CustomLoggingCode that breaks the security rules) are
+ * ignored with a warning, or repaired for the required fields. Only a missing required field or a value of
+ * the wrong type rejects the config.
+ */
+export function sanitizeLoggerConfig(value: unknown, options: ConfigValidationOptions = {}): ConfigSanitizeResult {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { config: null, errors: ['The config must be an object.'], warnings: [] };
+    }
+    const config: Record<string, unknown> = {};
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const [field, fieldValue] of Object.entries(value)) {
+        if (!Object.prototype.hasOwnProperty.call(fieldChecks, field)) {
+            warnings.push(`${field}: is not a LoggerConfig field (ignored)`);
+            continue;
+        }
+        if (fieldValue === undefined) {
+            continue;
+        }
+        const knownField = field as keyof LoggerConfig;
+        if (!fieldTypes[knownField].check(fieldValue)) {
+            errors.push(`${field}: must be ${fieldTypes[knownField].name}`);
+            continue;
+        }
+        const error = fieldChecks[knownField](fieldValue);
+        if (!error) {
+            config[field] = fieldValue;
+        } else if (fieldRepairs[knownField]) {
+            config[field] = fieldRepairs[knownField]!(fieldValue);
+            warnings.push(`${field}: ${error} (using ${JSON.stringify(config[field])})`);
+        } else {
+            warnings.push(`${field}: ${error} (ignored)`);
+        }
+    }
+
+    if (!options.partial) {
+        for (const field of requiredFields) {
+            if (config[field] === undefined && !errors.some(error => error.startsWith(`${field}:`))) {
+                errors.push(`${field}: is required`);
+            }
+        }
+    }
+
+    if ((options.validateCustomCode ?? true) && typeof config.CustomLoggingCode === 'string' && config.CustomLoggingCode.trim() !== '') {
+        const { js, violations } = transpileSnippet(config.CustomLoggingCode);
+        const allViolations = violations.length > 0 ? violations : validateTSCode(js).violations;
+        if (allViolations.length > 0) {
+            delete config.CustomLoggingCode;
+            const messages = allViolations.map(violation => `${violation.message} (${violation.location})`);
+            warnings.push(`CustomLoggingCode: ${messages.join(', ')} (ignored)`);
+        }
+    }
+
+    return { config: errors.length === 0 ? config as Partial<LoggerConfig> : null, errors, warnings };
+}
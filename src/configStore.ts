@@ -0,0 +1,146 @@
+// configStore.ts
+import fs from 'fs';
+import path from 'path';
+import type { ConfigFetcher, LoggerConfig } from './dynamicLogger';
+import type { ConfigChangeEvent, ConfigChangeListener, ConfigSubscriber } from './configSubscriber';
+
+/**
+ * Editable config storage behind the admin router. A store is also a ConfigSubscriber, so passing it as the
+ * logger's `configSubscriber` applies every write right away instead of after the cache TTL.
+ */
+export interface ConfigStore extends ConfigSubscriber {
+    list(): Promise<Record<string, Partial<LoggerConfig>>>;
+    get(key: string): Promise<Partial<LoggerConfig> | null>;
+    set(key: string, config: Partial<LoggerConfig>): Promise<void>;
+    delete(key: string): Promise<boolean>; // False if there was no config for the key
+}
+
+/**
+ * A ConfigFetcher that reads from a store, for `DLInitializer(configStoreFetcher(store), ...)`.
+ */
+export function configStoreFetcher(store: ConfigStore): ConfigFetcher {
+    return key => store.get(key);
+}
+
+/**
+ * Keeps configs in memory; they are lost on restart.
+ */
+export class InMemoryConfigStore implements ConfigStore {
+    protected configs = new Map<string, Partial<LoggerConfig>>();
+    private listeners = new Set<ConfigChangeListener>();
+
+    constructor(initialConfigs: Record<string, Partial<LoggerConfig>> = {}) {
+        for (const [key, config] of Object.entries(initialConfigs)) {
+            this.configs.set(key, config);
+        }
+    }
+
+    public async list(): Promise<Record<string, Partial<LoggerConfig>>> {
+        return Object.fromEntries(this.configs);
+    }
+
+    public async get(key: string): Promise<Partial<LoggerConfig> | null> {
+        return this.configs.get(key) ?? null;
+    }
+
+    public async set(key: string, config: Partial<LoggerConfig>): Promise<void> {
+        const type = this.configs.has(key) ? 'update' : 'add';
+        this.configs.set(key, config);
+        this.notify({ type, key, config });
+    }
+
+    public async delete(key: string): Promise<boolean> {
+        if (!this.configs.delete(key)) {
+            return false;
+        }
+        this.notify({ type: 'delete', key });
+        return true;
+    }
+
+    public subscribe(listener: ConfigChangeListener): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    protected notify(event: ConfigChangeEvent): void {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (e: any) {
+                console.error(`DynamicLogger: Error in config change listener for key '${event.key}':`, e.message);
+            }
+        }
+    }
+}
+
+/**
+ * Keeps configs in a JSON file (`{ "KEY": { ...config } }`), loaded on first use.
+ * Writes go to a temporary file that is then renamed over the original, so a crash never leaves half a file.
+ * Changes made to the file by other processes are not picked up.
+ */
+export class JsonFileConfigStore extends InMemoryConfigStore {
+    private loaded: Promise<void> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private filePath: string) {
+        super();
+    }
+
+    public async list(): Promise<Record<string, Partial<LoggerConfig>>> {
+        await this.load();
+        return super.list();
+    }
+
+    public async get(key: string): Promise<Partial<LoggerConfig> | null> {
+        await this.load();
+        return super.get(key);
+    }
+
+    public async set(key: string, config: Partial<LoggerConfig>): Promise<void> {
+        await this.load();
+        await super.set(key, config);
+        await this.save();
+    }
+
+    public async delete(key: string): Promise<boolean> {
+        await this.load();
+        const deleted = await super.delete(key);
+        if (deleted) {
+            await this.save();
+        }
+        return deleted;
+    }
+
+    private load(): Promise<void> {
+        this.loaded ??= (async () => {
+            let text: string;
+            try {
+                text = await fs.promises.readFile(this.filePath, 'utf8');
+            } catch (e: any) {
+                if (e.code === 'ENOENT') {
+                    return; // Created on the first write
+                }
+                throw e;
+            }
+            const parsed = JSON.parse(text);
+            if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                throw new Error(`DynamicLogger: '${this.filePath}' must contain an object of configs by key.`);
+            }
+            for (const [key, config] of Object.entries(parsed)) {
+                this.configs.set(key, config as Partial<LoggerConfig>);
+            }
+        })();
+        return this.loaded;
+    }
+
+    // Writes are chained, so the file always ends up with the latest state
+    private save(): Promise<void> {
+        this.writing = this.writing.catch(() => undefined).then(async () => {
+            const temporaryPath = `${this.filePath}.${process.pid}.tmp`;
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.promises.writeFile(temporaryPath, JSON.stringify(Object.fromEntries(this.configs), null, 2) + '\n');
+            await fs.promises.rename(temporaryPath, this.filePath);
+        });
+        return this.writing;
+    }
+}
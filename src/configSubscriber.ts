@@ -0,0 +1,157 @@
+// configSubscriber.ts
+import { WebSocket, RawData } from 'ws';
+import type { LoggerConfig } from './dynamicLogger';
+
+// --- Type Definitions ---
+export type ConfigChangeType = 'add' | 'update' | 'delete';
+
+export interface ConfigChangeEvent {
+    type: ConfigChangeType;
+    key: string;
+    config?: Partial<LoggerConfig> | null; // Required for 'add' and 'update', ignored for 'delete'
+}
+
+export type ConfigChangeListener = (event: ConfigChangeEvent) => void;
+
+/**
+ * A source that pushes config changes instead of waiting to be polled by the ConfigFetcher.
+ * `subscribe` returns a function that removes the listener again.
+ */
+export interface ConfigSubscriber {
+    subscribe(listener: ConfigChangeListener): () => void;
+}
+
+interface WebSocketConfigSubscriberOptions {
+    url: string;
+    reconnectDelayMs?: number;    // Initial delay before reconnecting after the socket closes
+    maxReconnectDelayMs?: number; // Upper bound for the exponential backoff
+    verbose?: boolean;
+}
+
+const changeTypes: ConfigChangeType[] = ['add', 'update', 'delete'];
+
+/**
+ * Reference ConfigSubscriber backed by a WebSocket connection to a config service.
+ * The service sends JSON messages, either a single event or an array of events:
+ *     { "type": "update", "key": "SYSTEM_EVENT", "config": { "SamplingRate": 0.5, ... } }
+ * The socket is opened on the first subscription and closed when the last listener unsubscribes.
+ */
+export class WebSocketConfigSubscriber implements ConfigSubscriber {
+    private socket: WebSocket | null = null;
+    private listeners = new Set<ConfigChangeListener>();
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private currentReconnectDelayMs: number;
+    private readonly reconnectDelayMs: number;
+    private readonly maxReconnectDelayMs: number;
+
+    constructor(private options: WebSocketConfigSubscriberOptions) {
+        this.reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+        this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30000;
+        this.currentReconnectDelayMs = this.reconnectDelayMs;
+    }
+
+    public subscribe(listener: ConfigChangeListener): () => void {
+        this.listeners.add(listener);
+        if (!this.socket && !this.reconnectTimer) {
+            this.connect(); // The first subscription, or the first one after close()
+        }
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) {
+                this.close();
+            }
+        };
+    }
+
+    /**
+     * Closes the connection and stops reconnecting. Listeners stay registered
+     * but receive nothing until `subscribe` is called again.
+     */
+    public close(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (this.socket) {
+            const socket = this.socket;
+            this.socket = null; // Marks the close as intentional for the 'close' handler
+            socket.close();
+        }
+    }
+
+    private connect(): void {
+        const socket = new WebSocket(this.options.url);
+        this.socket = socket;
+
+        socket.on('open', () => {
+            this.currentReconnectDelayMs = this.reconnectDelayMs;
+            if (this.options.verbose) {
+                console.log(`DynamicLogger: Config subscription connected to ${this.options.url}`);
+            }
+        });
+
+        socket.on('message', (data: RawData) => {
+            this.handleMessage(data.toString());
+        });
+
+        socket.on('error', (error: Error) => {
+            if (this.options.verbose) {
+                console.error(`DynamicLogger: Config subscription error: ${error.message}`);
+            }
+        });
+
+        socket.on('close', () => {
+            if (this.socket !== socket) {
+                return; // Closed on purpose
+            }
+            this.socket = null;
+            this.scheduleReconnect();
+        });
+    }
+
+    private scheduleReconnect(): void {
+        if (this.listeners.size === 0) {
+            return;
+        }
+        const delay = this.currentReconnectDelayMs;
+        this.currentReconnectDelayMs = Math.min(this.currentReconnectDelayMs * 2, this.maxReconnectDelayMs);
+        if (this.options.verbose) {
+            console.warn(`DynamicLogger: Config subscription closed, reconnecting in ${delay}ms.`);
+        }
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.connect();
+        }, delay);
+        this.reconnectTimer.unref(); // A pending reconnect must not keep the process alive
+    }
+
+    private handleMessage(raw: string): void {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(raw);
+        } catch {
+            if (this.options.verbose) {
+                console.warn(`DynamicLogger: Ignoring non-JSON config message: ${raw}`);
+            }
+            return;
+        }
+
+        const events: any[] = Array.isArray(parsed) ? parsed : [parsed];
+        for (const event of events) {
+            if (!event || typeof event.key !== 'string' || !changeTypes.includes(event.type)) {
+                if (this.options.verbose) {
+                    console.warn(`DynamicLogger: Ignoring malformed config event: ${JSON.stringify(event)}`);
+                }
+                continue;
+            }
+            const change: ConfigChangeEvent = { type: event.type, key: event.key, config: event.config ?? null };
+            this.listeners.forEach(listener => {
+                try {
+                    listener(change);
+                } catch (e: any) {
+                    console.error("DynamicLogger: Error in config change listener:", e.message);
+                }
+            });
+        }
+    }
+}
@@ -1,6 +1,25 @@
 // dynamicLogger.ts
 import { AsyncLocalStorage } from 'async_hooks';
-import { validateTSCode } from './validators'; // Import the validator
+import { ConfigCache } from './configCache';
+import type { ConfigSubscriber, ConfigChangeEvent } from './configSubscriber';
+import { resolveFormatter, serializeValue, Formatter, FormatterName } from './formatters';
+import type { CallSite, LogRecord } from './logRecord';
+import { isLevelEnabled, isLogLevel, LogLevel } from './levels';
+import { matchesAnyKeyPattern, stripNamespace } from './keyPatterns';
+import { hasRateLimits, RateLimiter, RateLimits } from './rateLimiter';
+import { decideSampling, SamplingRule } from './sampling';
+import { RedactConfig, RedactionOptions, Redactor } from './redaction';
+import { toSafeValue, SerializationOptions } from './safeSerializer';
+import { LruCache } from './lruCache';
+import { getPathKeyNames, parseVariablePath, resolveVariablePath, VariablePath } from './variablePaths';
+import type { LogSink, SinkFilter, SinkRegistration } from './sinks';
+import { LogQueue, LogQueueStats, OverflowPolicy } from './logQueue';
+import { getLocalNames, Sandbox } from './sandbox';
+import { SnippetCache, SnippetCacheStats } from './snippetCache';
+import { sanitizeLoggerConfig } from './configSchema';
+import { LoggerMetrics, LoggerStats, MetricsOptions } from './loggerMetrics';
+import type { MetricsRegistry } from './metrics';
+import { loadTypeManifest, TypeManifest } from './typeManifest';
 
 export const als = new AsyncLocalStorage<Map<string, any>>();
 // Imported to include global/request-scoped contextual data (managed by ALS)
@@ -11,33 +30,172 @@ export interface LoggerConfig {
     SamplingRate: number;
     PrefixMessage: string;
     CustomLoggingCode?: string; // Optional: TS code string
+    CacheTtlMs?: number;        // Optional: overrides the logger-wide cacheTtlMs for this key
+    Level?: LogLevel;           // Optional: level of dynamicLog calls at this key (default 'info')
+    MinLevel?: LogLevel;        // Optional: overrides the logger-wide minLevel for this key
+    Tags?: string[];            // Optional: labels used by sink filters to route records
+    MaxPerSecond?: number;      // Optional: records per second for this key after sampling (token bucket refill rate)
+    BurstSize?: number;         // Optional: records allowed at once before MaxPerSecond applies, default max(1, MaxPerSecond)
+    FirstN?: number;            // Optional: only the first N records of this key are logged...
+    ThenEvery?: number;         // Optional: ...and after that every Mth one
+    SampleBy?: string;          // Optional: local or ALS variable whose hash decides sampling (e.g. 'requestId')
+    AlwaysLogWhen?: SamplingRule[]; // Optional: records matching any rule skip sampling
+    Redact?: RedactConfig;      // Optional: redaction rules added to the logger-wide ones for this key
 }
 
-type ConfigFetcher = (uniqueKey: string) => Promise<Partial<LoggerConfig> | null>; 
+// What a ConfigFetcher is told about the key besides the key itself
+interface ConfigFetchContext {
+    key: string;        // The key as written at the call site
+    namespace?: string; // The logger's namespace, if it has one; uniqueKey is then '<namespace>:<key>'
+}
+
+type ConfigFetcher = (uniqueKey: string, context?: ConfigFetchContext) => Promise<Partial<LoggerConfig> | null>; 
 // Allow partial for flexibility from fetcher
-type LogFunction = (logString: string) => void;
+// The formatted string is what most log functions need; the record is there for pipelines that want structure
+type LogFunction = (logString: string, record: LogRecord) => void;
+
+// The locals injected by the transformer: an object, or with `localsCapture: 'lazy'` a function returning it
+type LocalsArgument = Record<string, any> | (() => Record<string, any>);
+
+// Sampling without SampleBy or AlwaysLogWhen looks nothing up
+const noLookup = () => undefined;
 
 interface DynamicLoggerConstructorOptions {
     configFetcher: ConfigFetcher;
     logFunction: LogFunction;
     fetchTimeoutMs?: number; // Optional timeout for config fetching
     verbose?: boolean;       // For internal DynamicLogger debugging
+    cacheTtlMs?: number;              // How long a fetched config stays fresh (0 disables caching)
+    staleWhileRevalidateMs?: number;  // How long an expired config is served while it is refreshed
+    negativeCacheTtlMs?: number;      // How long a `null` config result is remembered
+    configSubscriber?: ConfigSubscriber; // Optional push source for config changes
+    formatter?: Formatter | FormatterName; // How a LogRecord becomes the log string (default 'legacy')
+    minLevel?: LogLevel;                   // Records below this level are dropped (default 'info')
+    sinks?: (LogSink | SinkRegistration)[]; // Additional outputs, each with an optional filter
+    dispatch?: DispatchOptions;             // 'background' makes dynamicLog fire-and-forget
+    customCodeTimeoutMs?: number;           // CPU budget for one CustomLoggingCode run, default 50
+    customCodeMaxOutputBytes?: number;      // CustomLoggingCode output is truncated beyond this, default 4096
+    snippetCacheSize?: number;              // Validated/compiled CustomLoggingCode snippets kept, default 500
+    typeManifest?: TypeManifest | string;   // Types of the locals per key (or the path of the transformer's manifest)
+    rateLimitSummaryIntervalMs?: number;    // How often records held back by rate limits are reported, default 60000
+    redaction?: RedactionOptions;           // Key-name and value rules applied to variables, context and output
+    serialization?: SerializationOptions;   // Size limits for logged values
+    metrics?: MetricsOptions;               // Limits for the logger's own metrics, see getStats()
+    namespace?: string;                     // Prefixed onto the keys of config fetches and records, e.g. 'billing:PAYMENT_FAILED'
+}
+
+type LoggerOptions = Omit<DynamicLoggerConstructorOptions, 'configFetcher' | 'logFunction'>;
+
+interface CreateLoggerOptions extends LoggerOptions {
+    name?: string; // Registers the logger, so other modules can look it up with DynamicLogger.get(name)
+}
+
+interface DispatchOptions {
+    mode: 'await' | 'background';    // 'await' (default) processes the call before dynamicLog resolves
+    maxQueueSize?: number;           // Calls buffered in background mode, default 10000
+    batchSize?: number;              // Calls processed together, default 100
+    flushIntervalMs?: number;        // Maximum time a call waits for its batch to fill, default 50
+    overflowPolicy?: OverflowPolicy; // What happens when the buffer is full, default 'drop-oldest'
+    drainOnExit?: boolean;           // Flush the buffer when the process is about to exit, default true
+}
+
+// A dynamicLog call captured for background processing, including its ALS store
+interface QueuedLogCall {
+    level: LogLevel | undefined;
+    uniqueKey: string | undefined;
+    metadata: any;
+    allAvailableLocals: Record<string, any> | undefined;
+    callSite: CallSite | undefined;
+    store: Map<string, any> | undefined;
 }
 
 class DynamicLogger {
-    private static instance: DynamicLogger;
+    private static instance: DynamicLogger | undefined;
+    private static named = new Map<string, DynamicLogger>();
 
     private configFetcher: ConfigFetcher;
     private logFunction: LogFunction;
+    private formatter: Formatter;
     private fetchTimeoutMs: number;
     private internalVerbose: boolean;
+    private minLevel: LogLevel;
+    private sandbox: Sandbox;
+    private snippetCache: SnippetCache;
+    private configCache: ConfigCache;
+    private sinks: SinkRegistration[] = [];
+    private queue: LogQueue<QueuedLogCall> | null = null;
+    private rateLimiter = new RateLimiter();
+    private redactor: Redactor;
+    private keyRedactors = new LruCache<string, Redactor>(100); // Logger-wide rules plus a config's Redact, by its JSON
+    private serialization: SerializationOptions;
+    private rateLimitedKeys = new Map<string, LoggerConfig>(); // Last config of each rate-limited key, for summaries
+    private checkedConfigs = new WeakMap<Partial<LoggerConfig>, LoggerConfig | null>(); // Sanitized config per fetched config
+    private configWarnings = new LruCache<string, true>(1000); // Config problems already warned about, by key and message
+    private metrics: LoggerMetrics;
+    private summaryTimer: NodeJS.Timeout;
+    private unsubscribeFromConfigChanges?: () => void;
+    private exitHandler?: () => void;
+    private namespace?: string;
+    private registeredName?: string;
+    // Child loggers are objects whose prototype is their parent, so they share all of the above with it.
+    // Only the bound fields are their own; `root` is the logger that owns the shared state.
+    private root: DynamicLogger = this;
+    private boundFields: Record<string, any> | null = null;
 
     private constructor(options: DynamicLoggerConstructorOptions) {
         this.configFetcher = options.configFetcher;
         this.logFunction = options.logFunction;
+        this.formatter = resolveFormatter(options.formatter);
         this.fetchTimeoutMs = options.fetchTimeoutMs || 2000; 
         // Default 2s timeout, added just in case something breaks
         this.internalVerbose = !!options.verbose;
+        this.minLevel = options.minLevel ?? 'info';
+        this.namespace = options.namespace || undefined;
+        this.sandbox = new Sandbox({
+            timeoutMs: options.customCodeTimeoutMs ?? 50,
+            maxOutputBytes: options.customCodeMaxOutputBytes ?? 4096,
+        });
+        this.redactor = new Redactor(options.redaction);
+        this.serialization = options.serialization ?? {};
+        this.metrics = new LoggerMetrics(options.metrics);
+        this.metrics.watchQueue(() => this.getQueueStats());
+        this.snippetCache = new SnippetCache(options.snippetCacheSize ?? 500, this._resolveTypeManifest(options.typeManifest));
+        const cacheTtlMs = options.cacheTtlMs ?? 30000;
+        const cachingEnabled = cacheTtlMs > 0; // A TTL of 0 turns off the cache defaults, not just freshness
+        this.configCache = new ConfigCache(key => this._fetchConfigWithTimeout(key), {
+            ttlMs: cacheTtlMs,
+            staleWhileRevalidateMs: options.staleWhileRevalidateMs ?? (cachingEnabled ? 30000 : 0),
+            negativeTtlMs: options.negativeCacheTtlMs ?? (cachingEnabled ? 5000 : 0),
+            verbose: this.internalVerbose,
+        });
+
+        for (const entry of options.sinks ?? []) {
+            if ('sink' in entry) {
+                this.addSink(entry.sink, entry.filter);
+            } else {
+                this.addSink(entry);
+            }
+        }
+
+        if (options.configSubscriber) {
+            this.unsubscribeFromConfigChanges = options.configSubscriber.subscribe(event => this._applyConfigChange(event));
+        }
+
+        if (options.dispatch?.mode === 'background') {
+            this.queue = new LogQueue(batch => this._processQueuedCalls(batch), {
+                maxSize: options.dispatch.maxQueueSize ?? 10000,
+                batchSize: options.dispatch.batchSize ?? 100,
+                flushIntervalMs: options.dispatch.flushIntervalMs ?? 50,
+                overflowPolicy: options.dispatch.overflowPolicy ?? 'drop-oldest',
+            });
+            if (options.dispatch.drainOnExit ?? true) {
+                this.exitHandler = () => { this.flush(); };
+                process.once('beforeExit', this.exitHandler);
+            }
+        }
+
+        this.summaryTimer = setInterval(() => this._emitSuppressionSummaries(), options.rateLimitSummaryIntervalMs ?? 60000);
+        this.summaryTimer.unref(); // Like the queue's timers, it doesn't keep the process alive
 
         if (this.internalVerbose) {
             console.log(`DynamicLogger Instance Created. Fetch timeout: ${this.fetchTimeoutMs}ms.`);
@@ -45,12 +203,13 @@ class DynamicLogger {
     }
 
     /**
-     * Initializes and/or returns the singleton instance of DynamicLogger.
+     * Initializes and/or returns the default instance of DynamicLogger, the one the standalone `dynamicLog` uses.
+     * Later calls return the existing instance and ignore their arguments.
      */
     public static DLInitializer(
         configFetcher: ConfigFetcher,
         logFunction: LogFunction,
-        options?: Omit<DynamicLoggerConstructorOptions, 'configFetcher' | 'logFunction'>
+        options?: LoggerOptions
     ): DynamicLogger {
         if (!DynamicLogger.instance) {
             if (!configFetcher || !logFunction) {
@@ -61,6 +220,8 @@ class DynamicLogger {
                 logFunction,
                 ...options
             });
+        } else if (configFetcher !== DynamicLogger.instance.configFetcher || logFunction !== DynamicLogger.instance.logFunction) {
+            console.warn("DynamicLogger: DLInitializer was already called, these arguments are ignored. Use DynamicLogger.create() for a separate logger.");
         }
         return DynamicLogger.instance;
     }
@@ -73,103 +234,539 @@ class DynamicLogger {
         return DynamicLogger.instance;
     }
 
-    private _serializeValue(value: any): string {
+    /**
+     * Creates a logger independent of the default instance and of every other logger: its own fetcher,
+     * log function, caches, sinks and metrics. With `name`, it can be looked up with `DynamicLogger.get(name)`.
+     */
+    public static create(
+        configFetcher: ConfigFetcher,
+        logFunction: LogFunction,
+        options: CreateLoggerOptions = {}
+    ): DynamicLogger {
+        if (!configFetcher || !logFunction) {
+            throw new Error("DynamicLogger: configFetcher and logFunction are required for initialization.");
+        }
+        const { name, ...loggerOptions } = options;
+        if (name !== undefined && DynamicLogger.named.has(name)) {
+            throw new Error(`DynamicLogger: A logger named '${name}' already exists.`);
+        }
+        const logger = new DynamicLogger({ configFetcher, logFunction, ...loggerOptions });
+        if (name !== undefined) {
+            logger.registeredName = name;
+            DynamicLogger.named.set(name, logger);
+        }
+        return logger;
+    }
+
+    /**
+     * Returns the logger created with `DynamicLogger.create(..., { name })`, or throws.
+     */
+    public static get(name: string): DynamicLogger {
+        const logger = DynamicLogger.named.get(name);
+        if (!logger) {
+            throw new Error(`DynamicLogger: No logger named '${name}'. Create it with DynamicLogger.create() first.`);
+        }
+        return logger;
+    }
+
+    public static has(name: string): boolean {
+        return DynamicLogger.named.has(name);
+    }
+
+    /**
+     * Disposes the default instance and every named logger, e.g. after each test.
+     */
+    public static async disposeAll(): Promise<void> {
+        const loggers = new Set(DynamicLogger.named.values());
+        if (DynamicLogger.instance) {
+            loggers.add(DynamicLogger.instance);
+        }
+        await Promise.all([...loggers].map(logger => logger.dispose()));
+    }
+
+    /**
+     * A logger that shares everything with this one (configs, caches, sinks, metrics, namespace) and adds
+     * `fields` to the context of its records. They behave like ALS values: VariablesToLog, SampleBy and
+     * AlwaysLogWhen can use them, and ALS values of the same name take precedence.
+     */
+    public child(fields: Record<string, any>): DynamicLogger {
+        const child: DynamicLogger = Object.create(this);
+        child.boundFields = { ...this.boundFields, ...fields };
+        return child;
+    }
+
+    /**
+     * Forgets cached configs, rate-limit counts and metrics, as if the logger had just been created.
+     * Options, sinks and the config subscription stay. Meant for isolating tests.
+     */
+    public reset(): void {
+        if (this.root !== this) {
+            this.root.reset();
+            return;
+        }
+        this.configCache.invalidateAll();
+        this.rateLimiter = new RateLimiter();
+        this.rateLimitedKeys.clear();
+        this.keyRedactors.clear();
+        this.checkedConfigs = new WeakMap();
+        this.configWarnings.clear();
+        this.metrics.registry.reset();
+    }
+
+    /**
+     * Shuts the logger down (see shutdown) and unregisters it. For the default instance, the next
+     * DLInitializer call creates a new one. On a child logger, this disposes the logger it belongs to.
+     */
+    public async dispose(): Promise<void> {
+        if (this.root !== this) {
+            return this.root.dispose();
+        }
+        if (this.registeredName !== undefined && DynamicLogger.named.get(this.registeredName) === this) {
+            DynamicLogger.named.delete(this.registeredName);
+        }
+        if (DynamicLogger.instance === this) {
+            DynamicLogger.instance = undefined;
+        }
+        await this.shutdown();
+    }
+
+    /**
+     * Drops the cached config for a key so the next dynamicLog call fetches it again.
+     */
+    public invalidate(uniqueKey: string): void {
+        const key = this._namespacedKey(uniqueKey);
+        this.configCache.invalidate(key);
+        this.rateLimiter.reset(key);
+    }
+
+    /**
+     * Drops every cached config.
+     */
+    public invalidateAll(): void {
+        this.configCache.invalidateAll();
+        this.rateLimitedKeys.forEach((_, key) => this.rateLimiter.reset(key));
+    }
+
+    /**
+     * Changes the logger-wide minimum level at runtime. A key's `MinLevel` still takes precedence.
+     */
+    public setMinLevel(level: LogLevel): void {
+        if (!isLogLevel(level)) {
+            throw new Error(`DynamicLogger: Unknown log level '${level}'.`);
+        }
+        this.root.minLevel = level; // Children share the level of the logger they belong to
+    }
+
+    /**
+     * Registers an output that receives every record matching `filter`, in addition to the logFunction.
+     * Sink names must be unique.
+     */
+    public addSink(sink: LogSink, filter?: SinkFilter): void {
+        if (this.sinks.some(registration => registration.sink.name === sink.name)) {
+            throw new Error(`DynamicLogger: A sink named '${sink.name}' is already registered.`);
+        }
+        this.sinks.push({ sink, filter });
+    }
+
+    /**
+     * Unregisters a sink by name and returns it, so the caller can close it. Returns undefined if unknown.
+     */
+    public removeSink(name: string): LogSink | undefined {
+        const index = this.sinks.findIndex(registration => registration.sink.name === name);
+        if (index === -1) {
+            return undefined;
+        }
+        return this.sinks.splice(index, 1)[0].sink;
+    }
+
+    private _sinkAccepts(filter: SinkFilter | undefined, record: LogRecord): boolean {
+        if (!filter) {
+            return true;
+        }
+        if (filter.keys && !matchesAnyKeyPattern(record.key, filter.keys, record.namespace)) {
+            return false;
+        }
+        if (filter.minLevel && !isLevelEnabled(record.level, filter.minLevel)) {
+            return false;
+        }
+        if (filter.tags && !filter.tags.some(tag => record.tags.includes(tag))) {
+            return false;
+        }
+        return true;
+    }
+
+    // Every sink gets its own try/catch so one failing output can't drop the record for the others
+    private _writeToSinks(record: LogRecord): void {
+        for (const { sink, filter } of this.sinks) {
+            if (!this._sinkAccepts(filter, record)) {
+                continue;
+            }
+            try {
+                const result = sink.write(record);
+                if (result instanceof Promise) {
+                    result.catch((e: any) => {
+                        this.metrics.recordSinkError(sink.name);
+                        console.error(`DynamicLogger: Error writing to sink '${sink.name}':`, e?.message);
+                    });
+                }
+            } catch (e: any) {
+                this.metrics.recordSinkError(sink.name);
+                console.error(`DynamicLogger: Error writing to sink '${sink.name}':`, e.message);
+            }
+        }
+    }
+
+    // Pushed configs replace the cached entry as if they had just been fetched
+    private _applyConfigChange(event: ConfigChangeEvent): void {
+        if (this.internalVerbose) {
+            console.log(`DynamicLogger: Received '${event.type}' config change for key '${event.key}'.`);
+        }
+        this.rateLimiter.reset(event.key); // New limits start with a full bucket and a fresh first-N count
+        if (event.type === 'delete') {
+            this.configCache.set(event.key, null);
+        } else if (event.config) {
+            this.configCache.set(event.key, event.config);
+        }
+    }
+
+    // A missing or broken manifest only disables type checking of snippets, it doesn't stop the logger
+    private _resolveTypeManifest(typeManifest: TypeManifest | string | undefined): TypeManifest {
+        if (typeof typeManifest !== 'string') {
+            return typeManifest ?? {};
+        }
         try {
-            let strValue = typeof value === 'string' ? value : JSON.stringify(value);
-            return strValue === undefined ? "undefined" : (strValue === null ? "null" : strValue) ;
-        } catch {
-            return "<unserializable>";
+            return loadTypeManifest(typeManifest);
+        } catch (e: any) {
+            console.warn(`DynamicLogger: Could not load type manifest, CustomLoggingCode won't be type-checked: ${e.message}`);
+            return {};
         }
     }
 
-    private _formatLogString(
-        uniqueKey: string,
-        finalMessage: string,
-        variables?: Record<string, any>,
-        customCodeOutput?: string // New parameter
-    ): string {
-        let logString = `Unique Key: [${uniqueKey}] - Message: [${finalMessage}]`;
-        if (variables && Object.keys(variables).length > 0) {
-            logString += ` - Variable Values: ${JSON.stringify(variables)}`;
+    private async _fetchConfigWithTimeout(uniqueKey: string): Promise<Partial<LoggerConfig> | null> {
+        let timer: NodeJS.Timeout | undefined;
+        let timedOut = false;
+        const startedAt = performance.now();
+        const fetchPromise = this.configFetcher(uniqueKey, { key: stripNamespace(uniqueKey, this.namespace), namespace: this.namespace });
+        const timeoutPromise = new Promise<null>((_, reject) => {
+            timer = setTimeout(() => {
+                timedOut = true;
+                reject(new Error(`Config fetch for key '${uniqueKey}' timed out after ${this.fetchTimeoutMs}ms.`));
+            }, this.fetchTimeoutMs);
+        });
+        try {
+            // Output will depend upon which promise (fetchPromise or timeoutPromise) finishes first
+            const config = await Promise.race([fetchPromise, timeoutPromise]);
+            this.metrics.recordConfigFetch(uniqueKey, 'success', startedAt);
+            return config;
+        } catch (e) {
+            this.metrics.recordConfigFetch(uniqueKey, timedOut ? 'timeout' : 'error', startedAt);
+            throw e;
+        } finally {
+            clearTimeout(timer);
         }
-        else{
-            logString += ` - Variable Values: {}`;
+    }
+
+    // A config is checked once per fetched object (the cache hands out the same one until it is refetched).
+    // Unknown or invalid optional fields are ignored with a warning; only a broken config skips the key.
+    // A fetcher may return a new object on every fetch, so each problem is only warned about once per key.
+    private _checkConfig(uniqueKey: string, fetchedConfig: Partial<LoggerConfig> | null): LoggerConfig | null {
+        if (!fetchedConfig) {
+            return null; // A deliberate null: nothing to log for this key
+        }
+        if (typeof fetchedConfig !== 'object') {
+            this._warnAboutConfig(`DynamicLogger: Invalid config for key '${uniqueKey}', logging skipped: The config must be an object.`);
+            return null;
         }
-        // Add custom code output if present
-        if (customCodeOutput !== undefined) { // Check for undefined to allow empty string or null as valid output
-            logString += ` - Output of Custom Logging Code: [${customCodeOutput}]`;
+        if (this.checkedConfigs.has(fetchedConfig)) {
+            return this.checkedConfigs.get(fetchedConfig)!;
+        }
+        // CustomLoggingCode is validated with the key's local types when it runs, see SnippetCache
+        const { config, errors, warnings } = sanitizeLoggerConfig(fetchedConfig, { validateCustomCode: false });
+        if (errors.length > 0) {
+            this._warnAboutConfig(`DynamicLogger: Invalid config for key '${uniqueKey}', logging skipped: ${errors.join('; ')}`);
+        } else if (warnings.length > 0) {
+            this._warnAboutConfig(`DynamicLogger: Ignoring parts of the config for key '${uniqueKey}': ${warnings.join('; ')}`);
+        }
+        const checked = config ? { ...config, PrefixMessage: config.PrefixMessage || "" } as LoggerConfig : null;
+        this.checkedConfigs.set(fetchedConfig, checked);
+        return checked;
+    }
+
+    private _warnAboutConfig(message: string): void {
+        if (!this.configWarnings.get(message)) {
+            this.configWarnings.set(message, true);
+            console.warn(message);
         }
-        return logString;
     }
 
     /**
      * Main logging method. Fetches configuration, samples, and logs.
+     * The record's level comes from the key's `Level` config (default 'info').
      * @param uniqueKey A unique identifier for this log point.
      * @param metadata This will be appended to the PrefixMessage from LoggerConfig. Typically your primary log message.
      * @param allAvailableLocals An object of all local variables (typically injected by a transformer).
      */
     public async dynamicLog(
-        uniqueKey: string,
+        uniqueKey?: string, // Generated by the transformer when omitted
         metadata?: any, // The user's primary message content, optional
-        allAvailableLocals?: Record<string, any>
+        allAvailableLocals?: LocalsArgument,
+        callSite?: CallSite
+    ): Promise<void> {
+        return this._log(undefined, uniqueKey, metadata, allAvailableLocals, callSite);
+    }
+
+    // Level-specific entry points. They behave like dynamicLog but fix the record's level.
+    public async debug(uniqueKey?: string, metadata?: any, allAvailableLocals?: LocalsArgument, callSite?: CallSite): Promise<void> {
+        return this._log('debug', uniqueKey, metadata, allAvailableLocals, callSite);
+    }
+
+    public async info(uniqueKey?: string, metadata?: any, allAvailableLocals?: LocalsArgument, callSite?: CallSite): Promise<void> {
+        return this._log('info', uniqueKey, metadata, allAvailableLocals, callSite);
+    }
+
+    public async warn(uniqueKey?: string, metadata?: any, allAvailableLocals?: LocalsArgument, callSite?: CallSite): Promise<void> {
+        return this._log('warn', uniqueKey, metadata, allAvailableLocals, callSite);
+    }
+
+    public async error(uniqueKey?: string, metadata?: any, allAvailableLocals?: LocalsArgument, callSite?: CallSite): Promise<void> {
+        return this._log('error', uniqueKey, metadata, allAvailableLocals, callSite);
+    }
+
+    /**
+     * Processes every buffered call (background mode) and flushes all sinks.
+     */
+    public async flush(): Promise<void> {
+        if (this.queue) {
+            await this.queue.flush();
+        }
+        await Promise.all(this.sinks.map(async ({ sink }) => {
+            try {
+                await sink.flush?.();
+            } catch (e: any) {
+                console.error(`DynamicLogger: Error flushing sink '${sink.name}':`, e.message);
+            }
+        }));
+    }
+
+    /**
+     * Drains the buffer, closes all sinks and stops listening for config changes.
+     * Calls made afterwards are dropped in background mode.
+     * Call it from your own SIGTERM/SIGINT handlers; only a natural exit ('beforeExit') is drained automatically.
+     */
+    public async shutdown(): Promise<void> {
+        if (this.root !== this) {
+            return this.root.shutdown(); // A child has nothing of its own to release
+        }
+        if (this.exitHandler) {
+            process.removeListener('beforeExit', this.exitHandler);
+            this.exitHandler = undefined;
+        }
+        if (this.queue) {
+            await this.queue.close();
+        }
+        this.unsubscribeFromConfigChanges?.();
+        this.unsubscribeFromConfigChanges = undefined;
+        clearInterval(this.summaryTimer);
+        this._emitSuppressionSummaries(); // Report what was held back since the last summary
+        await Promise.all(this.sinks.map(async ({ sink }) => {
+            try {
+                await (sink.close ? sink.close() : sink.flush?.());
+            } catch (e: any) {
+                console.error(`DynamicLogger: Error closing sink '${sink.name}':`, e.message);
+            }
+        }));
+    }
+
+    /**
+     * Hit/miss/eviction counters for the CustomLoggingCode validation and compilation caches.
+     */
+    public getSnippetCacheStats(): SnippetCacheStats {
+        return this.snippetCache.getStats();
+    }
+
+    /**
+     * Counters for the background buffer, or null in 'await' mode.
+     */
+    public getQueueStats(): LogQueueStats | null {
+        return this.queue ? this.queue.getStats() : null;
+    }
+
+    /**
+     * Counters and latencies of the logger itself, in total and per key: calls, records, why calls were dropped,
+     * config fetches and their latency, CustomLoggingCode failures and sink errors.
+     */
+    public getStats(): LoggerStats {
+        return this.metrics.getStats(this.getQueueStats(), this.getSnippetCacheStats());
+    }
+
+    /**
+     * The registry behind getStats(), for `createMetricsHandler` (Prometheus) or your own metrics.
+     */
+    public getMetricsRegistry(): MetricsRegistry {
+        return this.metrics.registry;
+    }
+
+    private _log(
+        level: LogLevel | undefined,
+        uniqueKey: string | undefined,
+        metadata?: any,
+        allAvailableLocals?: LocalsArgument,
+        callSite?: CallSite
+    ): Promise<void> {
+        const store = this._contextStore();
+        if (!this.queue) {
+            const run = () => this._processLog(level, uniqueKey, metadata, allAvailableLocals, callSite);
+            // Bound fields are read through ALS like request context, so they are added for this call only
+            return store === als.getStore() ? run() : als.run(store!, run);
+        }
+        return this.queue.enqueue({
+            level,
+            uniqueKey,
+            metadata,
+            // Lazy locals are read now: by the time the call is processed, the caller's variables may have changed
+            allAvailableLocals: this._materializeLocals(uniqueKey, allAvailableLocals),
+            callSite,
+            store: store ? new Map(store) : undefined, // Snapshot, the request may mutate its store later
+        });
+    }
+
+    // The key of config fetches, the cache, rate limits, metrics and records. The type manifest and the
+    // transformer only know the key as written at the call site.
+    private _namespacedKey(uniqueKey: string): string {
+        return this.namespace ? `${this.namespace}:${uniqueKey}` : uniqueKey;
+    }
+
+    // The ALS store with a child logger's bound fields underneath it
+    private _contextStore(): Map<string, any> | undefined {
+        const store = als.getStore();
+        if (!this.boundFields) {
+            return store;
+        }
+        return new Map([...Object.entries(this.boundFields), ...(store ?? [])]);
+    }
+
+    private _materializeLocals(uniqueKey: string | undefined, localsArgument: LocalsArgument | undefined): Record<string, any> | undefined {
+        if (typeof localsArgument !== 'function') {
+            return localsArgument;
+        }
+        try {
+            return localsArgument();
+        } catch (e: any) {
+            if (this.internalVerbose) {
+                console.error(`DynamicLogger: Error reading lazy locals for key '${uniqueKey}':`, e.message);
+            }
+            return undefined;
+        }
+    }
+
+    // A value for sampling, with the same precedence and path syntax as for VariablesToLog: injected locals win
+    // over the ALS store
+    private _lookupVariable(key: string, name: string, locals: Record<string, any> | undefined, alsStore: Map<string, any> | undefined): unknown {
+        const path = this._parseVariablePath(key, name);
+        if (!path) {
+            return undefined;
+        }
+        const hasLocal = !!locals && Object.prototype.hasOwnProperty.call(locals, path.root);
+        const resolved = resolveVariablePath(hasLocal ? locals![path.root] : alsStore?.get(path.root), path.segments);
+        return resolved.found ? resolved.value : undefined;
+    }
+
+    private async _processQueuedCalls(batch: QueuedLogCall[]): Promise<void> {
+        await Promise.all(batch.map(call => {
+            const run = () => this._processLog(call.level, call.uniqueKey, call.metadata, call.allAvailableLocals, call.callSite);
+            // Restore the caller's ALS store so context and ALS variables are the ones from the call site
+            return call.store ? als.run(call.store, run) : als.exit(run);
+        }));
+    }
+
+    private async _processLog(
+        callLevel: LogLevel | undefined,
+        uniqueKey: string | undefined,
+        metadata?: any,
+        localsArgument?: LocalsArgument,
+        callSite?: CallSite
     ): Promise<void> {
         if (!uniqueKey) {
-            console.error("DynamicLogger: uniqueKey is required for dynamicLog.");
+            console.error("DynamicLogger: uniqueKey is required for dynamicLog (it is only generated when the transformer runs).");
             return;
         }
+        const key = this._namespacedKey(uniqueKey);
+        const startedAt = performance.now();
+        this.metrics.recordCall(key);
 
         let fetchedConfig: Partial<LoggerConfig> | null = null;
         try {
-            const fetchPromise = this.configFetcher(uniqueKey);
-            const timeoutPromise = new Promise<null>((_, reject) =>
-                setTimeout(() => reject(new Error(`Config fetch for key '${uniqueKey}' timed out after ${this.fetchTimeoutMs}ms.`)), this.fetchTimeoutMs)
-            );
-            fetchedConfig = await Promise.race([fetchPromise, timeoutPromise]); 
-            // Output of fetchedConfig will depend upon which promise (fetchPromise or timeoutPromise) finishes first 
+            fetchedConfig = await this.configCache.get(key);
         } catch (error: any) {
             if (this.internalVerbose) {
-                console.error(`DynamicLogger: Error fetching or timeout for config key '${uniqueKey}': ${error.message}`);
+                console.error(`DynamicLogger: Error fetching or timeout for config key '${key}': ${error.message}`);
             }
+            this.metrics.recordDrop(key, 'fetch_error');
             return;
         }
 
-        if (!fetchedConfig ||
-            typeof fetchedConfig.SamplingRate !== 'number' ||
-            !Array.isArray(fetchedConfig.VariablesToLog)
-            // PrefixMessage can be optional or default to empty string
-        ) {
-            if (this.internalVerbose && fetchedConfig !== null) { // Only warn if not a deliberate null
-                 console.warn(`DynamicLogger: Invalid or incomplete config for key '${uniqueKey}'. Expected at least {SamplingRate: number, VariablesToLog: string[]}. Logging skipped.`);
-            }
+        const config = this._checkConfig(key, fetchedConfig);
+        if (!config) {
+            this.metrics.recordDrop(key, fetchedConfig ? 'invalid_config' : 'no_config');
             return;
         }
 
-        // Ensure we have a valid LoggerConfig structure for processing
-        const config: LoggerConfig = {
-            VariablesToLog: fetchedConfig.VariablesToLog,
-            SamplingRate: fetchedConfig.SamplingRate,
-            PrefixMessage: fetchedConfig.PrefixMessage || "",
-            CustomLoggingCode: fetchedConfig.CustomLoggingCode // Keep it, could be undefined
-        };
+        // --- Level Filtering ---
+        const level: LogLevel = callLevel ?? config.Level ?? 'info';
+        if (!isLevelEnabled(level, config.MinLevel ?? this.minLevel)) {
+            if (this.internalVerbose) {
+                console.log(`DynamicLogger: Skipped '${level}' record for key '${key}' below minimum level.`);
+            }
+            this.metrics.recordDrop(key, 'level');
+            return;
+        }
 
 
         // --- Sampling Logic ---
-        if (config.SamplingRate <= 0 || Math.random() >= config.SamplingRate) {
+        // Lazy locals are only read once the call is known to produce a record, or when sampling needs them.
+        // Without SampleBy and AlwaysLogWhen nothing is looked up, so an unsampled call allocates nothing here.
+        const alsStore = als.getStore();
+        const samplingReadsLocals = config.SampleBy !== undefined || !!config.AlwaysLogWhen?.length;
+        const samplingLocals = samplingReadsLocals ? this._materializeLocals(key, localsArgument) : undefined;
+        const sampling = samplingReadsLocals
+            ? decideSampling(config.SamplingRate, name => this._lookupVariable(key, name, samplingLocals, alsStore), config.SampleBy, config.AlwaysLogWhen)
+            : decideSampling(config.SamplingRate, noLookup);
+        if (!sampling.sampled) {
             if (this.internalVerbose && config.SamplingRate > 0) {
-                console.log(`DynamicLogger: Skipped logging for key '${uniqueKey}' due to sampling rate.`);
+                console.log(`DynamicLogger: Skipped logging for key '${key}' due to sampling rate.`);
             }
+            this.metrics.recordDrop(key, 'sampled_out');
             return; // Skip logging
         }
 
+        // --- Rate Limiting ---
+        // Applied after sampling, so it caps the records that would actually be written
+        const limits: RateLimits = {
+            maxPerSecond: config.MaxPerSecond,
+            burstSize: config.BurstSize,
+            firstN: config.FirstN,
+            thenEvery: config.ThenEvery,
+        };
+        if (hasRateLimits(limits)) {
+            this.rateLimitedKeys.set(key, config);
+            if (!this.rateLimiter.tryAcquire(key, limits)) {
+                if (this.internalVerbose) {
+                    console.log(`DynamicLogger: Skipped logging for key '${key}' due to rate limit.`);
+                }
+                this.metrics.recordDrop(key, 'rate_limited');
+                return;
+            }
+        }
+
         // --- Prepare Variables ---
+        const allAvailableLocals = samplingReadsLocals ? samplingLocals : this._materializeLocals(key, localsArgument);
+        const redactor = this._getRedactor(key, config.Redact);
         const filteredVars: Record<string, any> = {};
-        let hasVars = false;
 
         const contextLocals = { ...allAvailableLocals }; // Start with transformer locals
 
         // Merges variables from Node.js's AsyncLocalStorage (ALS) into 
         // the set of local variables captured by the transformer.
-        const alsStore = als.getStore();
         if (alsStore) {
             alsStore.forEach((value, key) => {
                 if (!Object.prototype.hasOwnProperty.call(contextLocals, key)) { 
@@ -179,79 +776,189 @@ class DynamicLogger {
             });
         }
 
-        // Filtering variables on the basis of VariablesToLog
+        // Filtering variables on the basis of VariablesToLog (names or paths into them)
         if (Object.keys(contextLocals).length > 0) {
-            for (const varName of config.VariablesToLog) {
-                if (Object.prototype.hasOwnProperty.call(contextLocals, varName)) {
-                    filteredVars[varName] = this._serializeValue(contextLocals[varName]);
-                    hasVars = true;
+            for (const spec of config.VariablesToLog) {
+                const path = this._parseVariablePath(key, spec);
+                if (!path || !Object.prototype.hasOwnProperty.call(contextLocals, path.root)) {
+                    continue;
+                }
+                const resolved = resolveVariablePath(contextLocals[path.root], path.segments);
+                if (resolved.found) {
+                    // Bounded and redacted here, turned into a string by the formatter
+                    filteredVars[path.outputName] = this._toSafeValue(getPathKeyNames(path), resolved.value, redactor);
                 }
             }
         }
 
         // --- Prepare Message ---
         const metadataString = (metadata === null || metadata === undefined) ? "" : String(metadata);
-        const finalMessage = config.PrefixMessage + metadataString;
+        const finalMessage = redactor.redactString(config.PrefixMessage + metadataString);
 
         // --- CustomLoggingCode Execution ---
-        let customCodeOutputString: string | undefined = "NA"; // Default to NA
+        let customCodeOutputString: string | undefined; // Stays undefined when there is no CustomLoggingCode
 
         if (config.CustomLoggingCode && typeof config.CustomLoggingCode === 'string' && config.CustomLoggingCode.trim() !== "") {
-            // Pass available (filtered or all) locals to the validator so it knows what variables are "safe" to use
-            const validationResult = validateTSCode(config.CustomLoggingCode);
+            const locals = allAvailableLocals ?? {};
+            const localNames = getLocalNames(locals);
+            const validationResult = this.snippetCache.validate(config.CustomLoggingCode, localNames, uniqueKey);
 
             if (validationResult.isValid) {
                 try {
-                    let declarations = '';
-
-                    if (allAvailableLocals) {
-                        for (const key in allAvailableLocals) {
-                            declarations += `const ${key} = allAvailableLocals["${key}"];\n`;
-                        }
-                    }
-
-                    // The CustomLoggingCode is wrapped in an IIFE to make it an expression
-                    // and to provide a clean scope for the declarations.
-                    const codeToEval = `
-                        "use strict";
-                        (() => {
-                            ${declarations}
-                            return (${config.CustomLoggingCode});
-                        })()
-                    `;
-
                     if (this.internalVerbose) {
-                        console.log(`[DynamicLogger] Code to eval for key '${uniqueKey}':\n${codeToEval}`);
+                        console.log(`[DynamicLogger] Running CustomLoggingCode in sandbox for key '${key}':\n${config.CustomLoggingCode}`);
                     }
-
-                    // `eval` executes in the current scope. `allAvailableLocals` is in this scope.
-                    const output = eval(codeToEval);
-                    customCodeOutputString = this._serializeValue(output);
+                    // Runs in an isolated vm context that only sees copies of the injected locals and the safe globals
+                    const script = this.snippetCache.compile(config.CustomLoggingCode, localNames);
+                    customCodeOutputString = this.sandbox.run(script, localNames, locals);
                 } catch (evalError: any) {
-                    customCodeOutputString = `<EvalError: ${this._serializeValue(evalError.message)}>`;
+                    this.metrics.recordCustomCodeError(key, evalError?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT' ? 'timeout' : 'error');
+                    customCodeOutputString = `<EvalError: ${serializeValue(evalError.message)}>`;
                     if (this.internalVerbose) {
-                        console.error(`DynamicLogger: Error executing CustomLoggingCode for key '${uniqueKey}':`, evalError);
+                        console.error(`DynamicLogger: Error executing CustomLoggingCode for key '${key}':`, evalError);
                     }
                 }
             } else {
+                this.metrics.recordCustomCodeError(key, 'violation');
                 customCodeOutputString = `<ValidationViolations: ${JSON.stringify(validationResult.violations)}>`;
                 if (this.internalVerbose) {
-                    console.warn(`DynamicLogger: CustomLoggingCode validation failed for key '${uniqueKey}':`, validationResult.violations);
+                    console.warn(`DynamicLogger: CustomLoggingCode validation failed for key '${key}':`, validationResult.violations);
                 }
             }
         }
+        if (customCodeOutputString !== undefined) {
+            customCodeOutputString = redactor.redactString(customCodeOutputString);
+        }
         // --- End CustomLoggingCode Execution ---
 
-        // --- Format and Log ---
-        const logString = this._formatLogString(uniqueKey, finalMessage, hasVars ? filteredVars : undefined, customCodeOutputString);
+        // --- Build, Format and Log ---
+        const record: LogRecord = {
+            key,
+            namespace: this.namespace,
+            level,
+            message: finalMessage,
+            variables: filteredVars,
+            customOutput: customCodeOutputString,
+            tags: config.Tags ?? [],
+            timestamp: new Date().toISOString(),
+            sampling: { rate: config.SamplingRate, sampled: true, reason: sampling.reason, rule: sampling.rule },
+            context: alsStore ? Object.fromEntries([...alsStore].map(([name, value]) => [name, this._toSafeValue([name], value, redactor)])) : {},
+            callSite,
+        };
+        this._emit(record);
+        this.metrics.recordRecord(key, level, startedAt);
+    }
+
+    // The logger-wide redaction rules, plus the key's own if its config has any
+    private _getRedactor(uniqueKey: string, redact: RedactConfig | undefined): Redactor {
+        if (!redact) {
+            return this.redactor;
+        }
+        const cacheKey = JSON.stringify(redact);
+        let redactor = this.keyRedactors.get(cacheKey);
+        if (!redactor) {
+            redactor = this.redactor.extend(redact, (pattern, error) => {
+                console.warn(`DynamicLogger: Ignoring invalid Redact pattern '${pattern}' for key '${uniqueKey}': ${error.message}`);
+            });
+            this.keyRedactors.set(cacheKey, redactor);
+        }
+        return redactor;
+    }
+
+    // `names` are the variable and property names the value was read through; any redacted one hides it
+    private _toSafeValue(names: string[], value: unknown, redactor: Redactor): unknown {
+        if (names.some(name => redactor.isRedactedKey(name))) {
+            return redactor.replacement;
+        }
+        return toSafeValue(value, redactor, this.serialization);
+    }
+
+    private _parseVariablePath(uniqueKey: string, spec: string): VariablePath | undefined {
         try {
-            this.logFunction(logString);
+            return parseVariablePath(spec);
         } catch (e: any) {
+            if (this.internalVerbose) {
+                console.warn(`DynamicLogger: Ignoring invalid variable path for key '${uniqueKey}': ${e.message}`);
+            }
+            return undefined;
+        }
+    }
+
+    private _emit(record: LogRecord): void {
+        try {
+            this.logFunction(this.formatter(record), record);
+        } catch (e: any) {
+            this.metrics.recordSinkError('logFunction');
             console.error("DynamicLogger: Error executing user-provided logFunction:", e.message);
         }
+        this._writeToSinks(record);
     }
+
+    // One 'warn' record per key whose rate limits held records back since the last summary
+    private _emitSuppressionSummaries(): void {
+        const now = Date.now();
+        for (const { key, count, since } of this.rateLimiter.takeSuppressed()) {
+            const config = this.rateLimitedKeys.get(key);
+            this._emit({
+                key,
+                namespace: this.namespace,
+                level: 'warn',
+                message: `Rate limit suppressed ${count} record(s) for key '${key}' since ${new Date(since).toISOString()}.`,
+                variables: {},
+                tags: config?.Tags ?? [],
+                timestamp: new Date(now).toISOString(),
+                sampling: { rate: config?.SamplingRate ?? 1, sampled: true },
+                context: {},
+                suppressed: { count, since: new Date(since).toISOString() },
+            });
+        }
+    }
+}
+
+/**
+ * Standalone form of `DynamicLogger.getInstance().dynamicLog(...)`. The transformer injects the locals
+ * into calls of this function (also when imported under another name) just like into the method.
+ */
+async function dynamicLog(uniqueKey?: string, metadata?: any, allAvailableLocals?: LocalsArgument, callSite?: CallSite): Promise<void> {
+    return DynamicLogger.getInstance().dynamicLog(uniqueKey, metadata, allAvailableLocals, callSite);
 }
 
 // Export the class and necessary types
-export { DynamicLogger };
-export type { ConfigFetcher, LogFunction };
+export { DynamicLogger, dynamicLog };
+export type { ConfigFetcher, ConfigFetchContext, LogFunction, LocalsArgument, LoggerOptions, CreateLoggerOptions };
+export type { LogRecord, SamplingDecision, SamplingReason, CallSite, SuppressionSummary } from './logRecord';
+export { hashSamplingValue } from './sampling';
+export { Redactor, defaultRedactedKeys, commonRedactionPatterns } from './redaction';
+export type { RedactionOptions, RedactConfig } from './redaction';
+export { toSafeValue } from './safeSerializer';
+export { parseVariablePath, resolveVariablePath } from './variablePaths';
+export type { VariablePath, PathSegment, ResolvedPath } from './variablePaths';
+export type { SerializationOptions } from './safeSerializer';
+export type { SamplingRule } from './sampling';
+export { logLevels } from './levels';
+export type { LogLevel } from './levels';
+export { legacyFormatter, jsonLinesFormatter, logfmtFormatter } from './formatters';
+export type { Formatter, FormatterName } from './formatters';
+export { ConsoleSink, FileSink, HttpSink, LiveLogSink } from './sinks';
+export type { LogSink, SinkFilter, SinkRegistration } from './sinks';
+export type { LogQueueStats, OverflowPolicy } from './logQueue';
+export type { SnippetCacheStats } from './snippetCache';
+export type { LruCacheStats } from './lruCache';
+export type { LoggerStats, KeyStats, LatencyStats, DropReason, ConfigFetchResult, CustomCodeErrorKind, MetricsOptions } from './loggerMetrics';
+export { MetricsRegistry, Counter, Gauge, Histogram, defaultLatencyBuckets } from './metrics';
+export type { MetricLabels, MetricSample, MetricType, HistogramValue } from './metrics';
+export { formatPrometheusMetrics, createMetricsHandler, prometheusContentType } from './prometheusExporter';
+export { loadTypeManifest } from './typeManifest';
+export type { TypeManifest, LocalTypes } from './typeManifest';
+export { loadLogPointManifest, getVariablesForKey, checkConfigsAgainstManifest } from './logPointManifest';
+export type { LogPoint, LogPointManifest, ConfigIssue, CheckConfigsOptions } from './logPointManifest';
+export { WebSocketConfigSubscriber } from './configSubscriber';
+export { InMemoryConfigStore, JsonFileConfigStore, configStoreFetcher } from './configStore';
+export type { ConfigStore } from './configStore';
+export { createAdminRouter } from './adminRouter';
+export type { AdminRouterOptions } from './adminRouter';
+export { validateLoggerConfig } from './configSchema';
+export type { ConfigValidationOptions, ConfigValidationResult } from './configSchema';
+export { FileConfigFetcher, EnvConfigFetcher, HttpConfigFetcher, CompositeConfigFetcher } from './fetchers';
+export type { ConfigLayer, ConfigMap, ConfigSource } from './fetchers';
+export type { ConfigSubscriber, ConfigChangeEvent, ConfigChangeListener, ConfigChangeType } from './configSubscriber';
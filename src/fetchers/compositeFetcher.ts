@@ -0,0 +1,86 @@
+// fetchers/compositeFetcher.ts
+import type { ConfigFetcher, LoggerConfig } from '../dynamicLogger';
+import type { ConfigChangeEvent, ConfigChangeListener, ConfigSubscriber } from '../configSubscriber';
+import { matchesAnyKeyPattern, stripNamespace } from '../keyPatterns';
+import { checkFetchedConfig, ConfigSource, notifyListeners } from './shared';
+
+export interface ConfigLayer {
+    source: ConfigSource | ConfigFetcher;
+    keys?: string[]; // Glob patterns, e.g. 'PAYMENT_*'; the layer is only asked for matching keys (with or without namespace)
+}
+
+/**
+ * Combines several sources, listed from lowest to highest precedence. The configs of all layers that have one
+ * for a key are merged field by field with later layers winning, so a file can hold the defaults and the
+ * environment or an HTTP service the overrides.
+ * If a layer fails, the whole fetch fails: the logger keeps serving the last good config rather than
+ * silently falling back to a lower layer.
+ * Subscribing forwards the changes of layers that are ConfigSubscribers, as the newly merged config of the key.
+ */
+export class CompositeConfigFetcher implements ConfigSource, ConfigSubscriber {
+    private layers: ConfigLayer[];
+    private listeners = new Set<ConfigChangeListener>();
+    private unsubscribeFromLayers: (() => void)[] = [];
+    private namespaces = new Map<string, string>(); // Of the fetched keys that have one, for refetching them on changes
+
+    constructor(layers: (ConfigLayer | ConfigSource | ConfigFetcher)[]) {
+        this.layers = layers.map(layer =>
+            typeof layer === 'function' || !('source' in layer) ? { source: layer } : layer);
+    }
+
+    public fetch: ConfigFetcher = async (uniqueKey, context) => {
+        if (context?.namespace) {
+            this.namespaces.set(uniqueKey, context.namespace);
+        }
+        const layers = this.layers
+            .map((layer, index) => ({ layer, index }))
+            .filter(({ layer }) => !layer.keys || matchesAnyKeyPattern(uniqueKey, layer.keys, context?.namespace));
+        const results = await Promise.all(layers.map(({ layer }) =>
+            typeof layer.source === 'function' ? layer.source(uniqueKey, context) : layer.source.fetch(uniqueKey, context)));
+
+        let merged = null as Partial<LoggerConfig> | null;
+        for (const [i, result] of results.entries()) {
+            // ConfigSources check what they return; plain ConfigFetchers aren't validated by anyone else, and an
+            // invalid field of theirs must not override a valid one of a lower layer
+            const { layer, index } = layers[i];
+            const config = typeof layer.source === 'function' ? checkFetchedConfig(`layer ${index}`, uniqueKey, result) : result;
+            if (config) {
+                merged = { ...merged, ...config };
+            }
+        }
+        return merged;
+    };
+
+    public subscribe(listener: ConfigChangeListener): () => void {
+        this.listeners.add(listener);
+        if (this.listeners.size === 1) {
+            for (const layer of this.layers) {
+                if (typeof layer.source !== 'function' && layer.source.subscribe) {
+                    this.unsubscribeFromLayers.push(layer.source.subscribe(event => this.onLayerChange(layer, event)));
+                }
+            }
+        }
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) {
+                this.unsubscribeFromLayers.forEach(unsubscribe => unsubscribe());
+                this.unsubscribeFromLayers = [];
+            }
+        };
+    }
+
+    // A change in one layer may be hidden by a higher one, so the key is fetched again through all layers
+    private onLayerChange(layer: ConfigLayer, event: ConfigChangeEvent): void {
+        const namespace = this.namespaces.get(event.key);
+        if (layer.keys && !matchesAnyKeyPattern(event.key, layer.keys, namespace)) {
+            return;
+        }
+        this.fetch(event.key, { key: stripNamespace(event.key, namespace), namespace }).then(config => {
+            notifyListeners(this.listeners, config
+                ? { type: 'update', key: event.key, config }
+                : { type: 'delete', key: event.key });
+        }, (e: any) => {
+            console.warn(`DynamicLogger: Could not refetch config for key '${event.key}' after a change: ${e.message}`);
+        });
+    }
+}
@@ -0,0 +1,60 @@
+// fetchers/envFetcher.ts
+import type { ConfigFetcher } from '../dynamicLogger';
+import { checkConfigMap, checkFetchedConfig, ConfigMap, ConfigSource, resolveConfigMap } from './shared';
+
+interface EnvConfigFetcherOptions {
+    env?: NodeJS.ProcessEnv; // Default process.env
+    variable?: string;       // Holds a JSON object of configs by key (patterns allowed), default 'DYNAMIC_LOGGER_CONFIGS'
+    prefix?: string;         // `<prefix><KEY>` holds the JSON config of one key, default 'DYNAMIC_LOGGER_CONFIG_'
+}
+
+/**
+ * Reads configs from environment variables, once at construction (call `reload` to read them again):
+ *     DYNAMIC_LOGGER_CONFIGS='{"PAYMENT_*": {"VariablesToLog": ["orderId"], "SamplingRate": 0.1}}'
+ *     DYNAMIC_LOGGER_CONFIG_PAYMENT_FAILED='{"SamplingRate": 1}'
+ * A per-key variable replaces that key's entry in the object. Keys that aren't valid variable names
+ * (e.g. generated keys) can only be set through the object. Malformed variables are skipped with a warning.
+ */
+export class EnvConfigFetcher implements ConfigSource {
+    private configs: ConfigMap = {};
+
+    constructor(private options: EnvConfigFetcherOptions = {}) {
+        this.reload();
+    }
+
+    public fetch: ConfigFetcher = async (uniqueKey, context) => resolveConfigMap(this.configs, uniqueKey, context?.namespace);
+
+    public reload(): void {
+        const env = this.options.env ?? process.env;
+        const variable = this.options.variable ?? 'DYNAMIC_LOGGER_CONFIGS';
+        const prefix = this.options.prefix ?? 'DYNAMIC_LOGGER_CONFIG_';
+        let configs: ConfigMap = {};
+
+        const all = env[variable];
+        if (all) {
+            try {
+                configs = checkConfigMap(`$${variable}`, JSON.parse(all));
+            } catch (e: any) {
+                console.warn(e instanceof SyntaxError ? `DynamicLogger: Ignoring $${variable}, it isn't valid JSON: ${e.message}` : e.message);
+            }
+        }
+        for (const [name, value] of Object.entries(env)) {
+            if (name === variable || !name.startsWith(prefix) || name.length === prefix.length || value === undefined) {
+                continue;
+            }
+            const key = name.slice(prefix.length);
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(value);
+            } catch (e: any) {
+                console.warn(`DynamicLogger: Ignoring $${name}, it isn't valid JSON: ${e.message}`);
+                continue;
+            }
+            const config = checkFetchedConfig(`$${name}`, key, parsed);
+            if (config) {
+                configs[key] = config;
+            }
+        }
+        this.configs = configs;
+    }
+}
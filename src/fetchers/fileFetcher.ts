@@ -0,0 +1,149 @@
+// fetchers/fileFetcher.ts
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ConfigFetcher } from '../dynamicLogger';
+import type { ConfigChangeListener, ConfigSubscriber } from '../configSubscriber';
+import { checkConfigMap, ConfigMap, ConfigSource, diffConfigMaps, notifyListeners, resolveConfigMap } from './shared';
+
+interface FileConfigFetcherOptions {
+    path: string;
+    format?: 'json' | 'yaml'; // Default from the extension: '.yaml' and '.yml' are YAML, anything else JSON
+    watch?: boolean;          // Reload the file when it changes, default true
+    debounceMs?: number;      // Changes within this window cause a single reload, default 100
+    verbose?: boolean;
+}
+
+/**
+ * Reads configs by key from a JSON or YAML file, e.g. `{ "PAYMENT_*": {...}, "PAYMENT_FAILED": {...} }`.
+ * Pattern keys are defaults that more specific patterns and the exact key override field by field.
+ * The file is read on first use and, with `watch`, again whenever it changes. Pass the fetcher as the
+ * logger's `configSubscriber` as well to apply those changes right away instead of after the cache TTL.
+ * A file that no longer parses keeps the previous configs; invalid entries are skipped with a warning.
+ */
+export class FileConfigFetcher implements ConfigSource, ConfigSubscriber {
+    private configs: ConfigMap = {};
+    private loaded: Promise<void> | null = null;
+    private watcher: fs.FSWatcher | null = null;
+    private reloadTimer: NodeJS.Timeout | null = null;
+    private listeners = new Set<ConfigChangeListener>();
+    private fetchedKeys = new Map<string, string | undefined>(); // By namespace; their configs may come from patterns, so they are re-checked on reload
+    private readonly format: 'json' | 'yaml';
+
+    constructor(private options: FileConfigFetcherOptions) {
+        this.format = options.format ?? (/\.ya?ml$/i.test(options.path) ? 'yaml' : 'json');
+    }
+
+    public fetch: ConfigFetcher = async (uniqueKey, context) => {
+        await this.load();
+        this.fetchedKeys.set(uniqueKey, context?.namespace);
+        return resolveConfigMap(this.configs, uniqueKey, context?.namespace);
+    };
+
+    public subscribe(listener: ConfigChangeListener): () => void {
+        this.listeners.add(listener);
+        // Start watching now, not only on the first fetch; a failed load is reported by the fetches
+        this.load().catch(() => undefined);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    /**
+     * Reads the file again and notifies subscribers of every key whose config changed.
+     * Resolves false (and keeps the previous configs) if the file can't be read or parsed.
+     */
+    public async reload(): Promise<boolean> {
+        let configs: ConfigMap;
+        try {
+            configs = await this.read();
+        } catch (e: any) {
+            console.warn(`${e.message} (keeping the previous configs)`);
+            return false;
+        }
+        const previous = this.configs;
+        this.configs = configs;
+        this.loaded = Promise.resolve();
+        const events = diffConfigMaps(previous, configs, this.fetchedKeys);
+        if (this.options.verbose) {
+            console.log(`DynamicLogger: Reloaded '${this.options.path}', ${events.length} config(s) changed.`);
+        }
+        for (const event of events) {
+            notifyListeners(this.listeners, event);
+        }
+        return true;
+    }
+
+    /**
+     * Stops watching the file.
+     */
+    public close(): void {
+        if (this.reloadTimer) {
+            clearTimeout(this.reloadTimer);
+            this.reloadTimer = null;
+        }
+        this.watcher?.close();
+        this.watcher = null;
+    }
+
+    private load(): Promise<void> {
+        this.loaded ??= (async () => {
+            this.startWatching(); // Also when the read fails, so fixing the file is picked up
+            try {
+                this.configs = await this.read();
+            } catch (e) {
+                this.loaded = null; // Retried on the next fetch
+                throw e;
+            }
+        })();
+        return this.loaded;
+    }
+
+    private async read(): Promise<ConfigMap> {
+        let text: string;
+        try {
+            text = await fs.promises.readFile(this.options.path, 'utf8');
+        } catch (e: any) {
+            throw new Error(`DynamicLogger: Could not read config file '${this.options.path}': ${e.message}`);
+        }
+        let parsed: unknown;
+        try {
+            parsed = this.format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+        } catch (e: any) {
+            throw new Error(`DynamicLogger: Could not parse config file '${this.options.path}': ${e.message}`);
+        }
+        return checkConfigMap(`'${this.options.path}'`, parsed ?? {}); // An empty YAML file parses to null
+    }
+
+    private startWatching(): void {
+        if (this.watcher || !(this.options.watch ?? true)) {
+            return;
+        }
+        const fileName = path.basename(this.options.path);
+        try {
+            // Watching the directory also sees tools that replace the file by renaming a new one over it
+            this.watcher = fs.watch(path.dirname(path.resolve(this.options.path)), (_, changedFile) => {
+                if (!changedFile || changedFile.toString() === fileName) { // Some platforms don't report the name
+                    this.scheduleReload();
+                }
+            });
+        } catch (e: any) {
+            console.warn(`DynamicLogger: Could not watch '${this.options.path}', changes won't be reloaded: ${e.message}`);
+            return;
+        }
+        this.watcher.on('error', (error: Error) => {
+            console.warn(`DynamicLogger: Stopped watching '${this.options.path}': ${error.message}`);
+            this.close();
+        });
+        this.watcher.unref(); // Like the logger's timers, watching doesn't keep the process alive
+    }
+
+    private scheduleReload(): void {
+        if (this.reloadTimer) {
+            clearTimeout(this.reloadTimer);
+        }
+        this.reloadTimer = setTimeout(() => {
+            this.reloadTimer = null;
+            this.reload();
+        }, this.options.debounceMs ?? 100);
+        this.reloadTimer.unref();
+    }
+}
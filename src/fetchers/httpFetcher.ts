@@ -0,0 +1,91 @@
+// fetchers/httpFetcher.ts
+import type { ConfigFetcher, LoggerConfig } from '../dynamicLogger';
+import { LruCache } from '../lruCache';
+import { checkConfigMap, checkFetchedConfig, ConfigMap, ConfigSource, resolveConfigMap } from './shared';
+
+interface HttpConfigFetcherOptions {
+    // With '{key}', one GET per key (the key is URL-encoded) that answers with the config, or 404 if there is none.
+    // Without, one GET for a document of all configs by key (patterns allowed).
+    url: string;
+    headers?: Record<string, string>;
+    timeoutMs?: number;      // Per-request timeout, default 5000
+    maxCachedKeys?: number;  // Responses kept for conditional requests in per-key mode, default 1000
+}
+
+interface CachedResponse<T> {
+    etag: string;
+    value: T; // Already validated
+}
+
+/**
+ * Fetches configs over HTTP. Responses with an ETag are remembered and revalidated with `If-None-Match`,
+ * so an unchanged config costs a 304 and no parsing. Concurrent fetches of the same URL share one request.
+ * Works against the admin router: `{ url: 'https://host/admin/configs/{key}' }` or `'https://host/admin/configs'`.
+ * Failed requests throw, so the logger keeps serving the last good config.
+ */
+export class HttpConfigFetcher implements ConfigSource {
+    private responses: LruCache<string, CachedResponse<unknown>>;
+    private inFlight = new Map<string, Promise<unknown>>();
+    private readonly perKey: boolean;
+    private readonly timeoutMs: number;
+
+    constructor(private options: HttpConfigFetcherOptions) {
+        this.perKey = options.url.includes('{key}');
+        this.timeoutMs = options.timeoutMs ?? 5000;
+        this.responses = new LruCache(this.perKey ? options.maxCachedKeys ?? 1000 : 1);
+    }
+
+    public fetch: ConfigFetcher = async (uniqueKey, context) => {
+        if (this.perKey) {
+            const url = this.options.url.split('{key}').join(encodeURIComponent(uniqueKey));
+            return this.get(url, body => checkFetchedConfig(url, uniqueKey, body));
+        }
+        const configs = await this.get(this.options.url, body => checkConfigMap(this.options.url, body));
+        return resolveConfigMap(configs, uniqueKey, context?.namespace);
+    };
+
+    private get<T extends ConfigMap | Partial<LoggerConfig> | null>(url: string, check: (body: unknown) => T): Promise<T> {
+        let request = this.inFlight.get(url) as Promise<T> | undefined;
+        if (!request) {
+            request = this.send(url, check).finally(() => this.inFlight.delete(url));
+            this.inFlight.set(url, request);
+        }
+        return request;
+    }
+
+    private async send<T>(url: string, check: (body: unknown) => T): Promise<T> {
+        const cached = this.responses.get(url) as CachedResponse<T> | undefined;
+        const response = await fetch(url, {
+            headers: {
+                Accept: 'application/json',
+                ...this.options.headers,
+                ...(cached ? { 'If-None-Match': cached.etag } : {}),
+            },
+            signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        if (response.status === 304 && cached) {
+            return cached.value;
+        }
+        if (response.status === 404) {
+            this.responses.delete(url);
+            return check(null); // No config for the key; a missing document throws
+        }
+        if (!response.ok) {
+            throw new Error(`DynamicLogger: Config request to ${url} failed with ${response.status} ${response.statusText}.`);
+        }
+        let body: unknown;
+        try {
+            body = await response.json();
+        } catch (e: any) {
+            throw new Error(`DynamicLogger: Config response from ${url} isn't valid JSON: ${e.message}`);
+        }
+        const value = check(body);
+        const etag = response.headers.get('etag');
+        if (etag) {
+            this.responses.set(url, { etag, value });
+        } else {
+            this.responses.delete(url);
+        }
+        return value;
+    }
+}
@@ -0,0 +1,7 @@
+// fetchers/index.ts
+export { FileConfigFetcher } from './fileFetcher';
+export { EnvConfigFetcher } from './envFetcher';
+export { HttpConfigFetcher } from './httpFetcher';
+export { CompositeConfigFetcher } from './compositeFetcher';
+export type { ConfigLayer } from './compositeFetcher';
+export type { ConfigMap, ConfigSource } from './shared';
@@ -0,0 +1,119 @@
+// fetchers/shared.ts
+import type { ConfigFetcher, LoggerConfig } from '../dynamicLogger';
+import type { ConfigChangeEvent, ConfigChangeListener } from '../configSubscriber';
+import { sanitizeLoggerConfig } from '../configSchema';
+import { matchesAnyKeyPattern } from '../keyPatterns';
+
+/**
+ * Something configs can be fetched from. `fetch` is a bound ConfigFetcher, so it can be passed
+ * to `DLInitializer` on its own.
+ */
+export interface ConfigSource {
+    fetch: ConfigFetcher;
+    subscribe?(listener: ConfigChangeListener): () => void;
+}
+
+// Configs by key, as stored in a file, an environment variable or an HTTP document. Keys may be glob patterns.
+export type ConfigMap = Record<string, Partial<LoggerConfig>>;
+
+export function isKeyPattern(key: string): boolean {
+    return key.includes('*') || key.includes('?');
+}
+
+/**
+ * Checks the fields of one fetched config. Sources may hold only part of a config (defaults from a pattern
+ * or a lower layer fill in the rest), so required fields are checked by the logger, not here.
+ * Unknown or invalid optional fields are left out and a config with wrong types is dropped, both with a warning.
+ */
+export function checkFetchedConfig(source: string, key: string, value: unknown): Partial<LoggerConfig> | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    const { config, errors, warnings } = sanitizeLoggerConfig(value, { partial: true });
+    if (errors.length > 0) {
+        console.warn(`DynamicLogger: Ignoring invalid config for key '${key}' from ${source}: ${errors.join('; ')}`);
+    } else if (warnings.length > 0) {
+        console.warn(`DynamicLogger: Ignoring parts of the config for key '${key}' from ${source}: ${warnings.join('; ')}`);
+    }
+    return config;
+}
+
+/**
+ * Checks a document of configs by key. Invalid entries are dropped with a warning; a document that
+ * isn't an object throws.
+ */
+export function checkConfigMap(source: string, value: unknown): ConfigMap {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`DynamicLogger: ${source} must contain an object of configs by key.`);
+    }
+    const configs: ConfigMap = {};
+    for (const [key, entry] of Object.entries(value)) {
+        const config = checkFetchedConfig(source, key, entry);
+        if (config) {
+            configs[key] = config;
+        }
+    }
+    return configs;
+}
+
+// Literal characters of a pattern; a pattern with more of them is more specific
+function specificity(pattern: string): number {
+    return pattern.replace(/[*?]/g, '').length;
+}
+
+/**
+ * The config for a key from a ConfigMap: every matching pattern and the exact key, merged field by field.
+ * Less specific patterns come first, so `*` < `PAYMENT_*` < `PAYMENT_CARD_*` < `PAYMENT_CARD_DECLINED`.
+ * For a namespaced logger's key, patterns may leave out the namespace; the exact entry must include it.
+ */
+export function resolveConfigMap(configs: ConfigMap, key: string, namespace?: string): Partial<LoggerConfig> | null {
+    const patterns = Object.keys(configs)
+        .filter(pattern => isKeyPattern(pattern) && matchesAnyKeyPattern(key, [pattern], namespace))
+        .sort((a, b) => specificity(a) - specificity(b)); // Stable, so equally specific patterns keep their order
+    const exact = Object.prototype.hasOwnProperty.call(configs, key) && !isKeyPattern(key) ? configs[key] : undefined;
+    if (patterns.length === 0) {
+        return exact ?? null;
+    }
+    let merged: Partial<LoggerConfig> = {};
+    for (const pattern of patterns) {
+        merged = { ...merged, ...configs[pattern] };
+    }
+    return exact ? { ...merged, ...exact } : merged;
+}
+
+/**
+ * The change events that turn `previous` into `next` for the exact keys of both maps and for `knownKeys`
+ * (keys that were fetched, whose config may come from a pattern, with the namespace they were fetched in).
+ */
+export function diffConfigMaps(previous: ConfigMap, next: ConfigMap, knownKeys: Map<string, string | undefined>): ConfigChangeEvent[] {
+    const keys = new Map(knownKeys);
+    for (const key of [...Object.keys(previous), ...Object.keys(next)]) {
+        if (!isKeyPattern(key) && !keys.has(key)) {
+            keys.set(key, undefined);
+        }
+    }
+    const events: ConfigChangeEvent[] = [];
+    for (const [key, namespace] of keys) {
+        const before = resolveConfigMap(previous, key, namespace);
+        const after = resolveConfigMap(next, key, namespace);
+        if (JSON.stringify(before) === JSON.stringify(after)) {
+            continue;
+        }
+        if (!after) {
+            events.push({ type: 'delete', key });
+        } else {
+            events.push({ type: before ? 'update' : 'add', key, config: after });
+        }
+    }
+    return events;
+}
+
+export function notifyListeners(listeners: Iterable<ConfigChangeListener>, event: ConfigChangeEvent): void {
+    for (const listener of listeners) {
+        try {
+            listener(event);
+        } catch (e: any) {
+            console.error(`DynamicLogger: Error in config change listener for key '${event.key}':`, e.message);
+        }
+    }
+}
@@ -0,0 +1,111 @@
+// formatters.ts
+import type { LogRecord } from './logRecord';
+
+export type Formatter = (record: LogRecord) => string;
+export type FormatterName = 'legacy' | 'json' | 'logfmt';
+
+export function serializeValue(value: any): string {
+    try {
+        let strValue = typeof value === 'string' ? value : JSON.stringify(value);
+        return strValue === undefined ? "undefined" : (strValue === null ? "null" : strValue) ;
+    } catch {
+        return "<unserializable>";
+    }
+}
+
+function serializeEntries(values: Record<string, any>): Record<string, string> {
+    const serialized: Record<string, string> = {};
+    for (const name of Object.keys(values)) {
+        serialized[name] = serializeValue(values[name]);
+    }
+    return serialized;
+}
+
+/**
+ * The original text format:
+ * `Unique Key: [KEY] - Message: [MSG] - Variable Values: {...} - Output of Custom Logging Code: [OUTPUT]`
+ */
+export const legacyFormatter: Formatter = (record) => {
+    let logString = `Unique Key: [${record.key}] - Message: [${record.message}]`;
+    if (Object.keys(record.variables).length > 0) {
+        logString += ` - Variable Values: ${JSON.stringify(serializeEntries(record.variables))}`;
+    }
+    else{
+        logString += ` - Variable Values: {}`;
+    }
+    logString += ` - Output of Custom Logging Code: [${record.customOutput ?? "NA"}]`;
+    return logString;
+};
+
+/**
+ * One JSON object per record (JSON lines). Values that can't be represented in JSON
+ * (cycles, BigInt, ...) fall back to their serialized string form.
+ */
+export const jsonLinesFormatter: Formatter = (record) => {
+    try {
+        return JSON.stringify(record);
+    } catch {
+        return JSON.stringify({
+            ...record,
+            variables: serializeEntries(record.variables),
+            context: serializeEntries(record.context),
+        });
+    }
+};
+
+function logfmtValue(value: string): string {
+    return /[\s="\\]/.test(value) || value === "" ? JSON.stringify(value) : value;
+}
+
+/**
+ * `key=value` pairs, with variables and context flattened as `var.<name>` and `ctx.<name>`.
+ */
+export const logfmtFormatter: Formatter = (record) => {
+    const pairs: [string, string][] = [
+        ['ts', record.timestamp],
+        ['level', record.level],
+        ['key', record.key],
+        ['msg', record.message],
+    ];
+    for (const [name, value] of Object.entries(serializeEntries(record.variables))) {
+        pairs.push([`var.${name}`, value]);
+    }
+    if (record.customOutput !== undefined) {
+        pairs.push(['custom', record.customOutput]);
+    }
+    if (record.tags.length > 0) {
+        pairs.push(['tags', record.tags.join(',')]);
+    }
+    pairs.push(['sampling_rate', String(record.sampling.rate)]);
+    if (record.sampling.reason) {
+        pairs.push(['sampling_reason', record.sampling.reason]);
+    }
+    if (record.suppressed) {
+        pairs.push(['suppressed', String(record.suppressed.count)]);
+    }
+    if (record.callSite) {
+        pairs.push(['src', `${record.callSite.file}:${record.callSite.line}:${record.callSite.column}`]);
+        pairs.push(['fn', record.callSite.functionName]);
+    }
+    for (const [name, value] of Object.entries(serializeEntries(record.context))) {
+        pairs.push([`ctx.${name}`, value]);
+    }
+    return pairs.map(([name, value]) => `${name}=${logfmtValue(value)}`).join(' ');
+};
+
+const builtInFormatters: Record<FormatterName, Formatter> = {
+    legacy: legacyFormatter,
+    json: jsonLinesFormatter,
+    logfmt: logfmtFormatter,
+};
+
+export function resolveFormatter(formatter: Formatter | FormatterName | undefined): Formatter {
+    if (typeof formatter === 'function') {
+        return formatter;
+    }
+    const builtIn = builtInFormatters[formatter ?? 'legacy'];
+    if (!builtIn) {
+        throw new Error(`DynamicLogger: Unknown formatter '${formatter}'. Expected one of: ${Object.keys(builtInFormatters).join(', ')}.`);
+    }
+    return builtIn;
+}
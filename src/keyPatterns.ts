@@ -0,0 +1,36 @@
+// keyPatterns.ts
+import { LruCache } from './lruCache';
+
+// Bounded, because patterns also come from clients (`?keys=` of the live log stream)
+const patternCache = new LruCache<string, RegExp>(1000);
+
+/**
+ * Matches a uniqueKey against a glob-style pattern: `*` matches any run of characters,
+ * `?` matches exactly one. E.g. `PAYMENT_*` matches `PAYMENT_FAILED`.
+ */
+export function matchesKeyPattern(key: string, pattern: string): boolean {
+    const regex = patternCache.getOrCreate(pattern, () => {
+        const source = pattern
+            .split('')
+            .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+            .join('');
+        return new RegExp(`^${source}$`);
+    });
+    return regex.test(key);
+}
+
+/**
+ * The key as written at the call site: a namespaced logger's keys are '<namespace>:<key>'.
+ */
+export function stripNamespace(key: string, namespace: string | undefined): string {
+    return namespace && key.startsWith(`${namespace}:`) ? key.slice(namespace.length + 1) : key;
+}
+
+/**
+ * With a namespace, a pattern matches the full key or the key without the namespace,
+ * so both `billing:*` and `PAYMENT_*` match 'billing:PAYMENT_FAILED'.
+ */
+export function matchesAnyKeyPattern(key: string, patterns: string[], namespace?: string): boolean {
+    const localKey = stripNamespace(key, namespace);
+    return patterns.some(pattern => matchesKeyPattern(key, pattern) || (localKey !== key && matchesKeyPattern(localKey, pattern)));
+}
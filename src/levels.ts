@@ -0,0 +1,17 @@
+// levels.ts
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Ordered from least to most severe
+export const logLevels: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export function isLogLevel(value: any): value is LogLevel {
+    return logLevels.includes(value);
+}
+
+/**
+ * True when a record at `level` should be emitted under the `minLevel` threshold.
+ */
+export function isLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+    return logLevels.indexOf(level) >= logLevels.indexOf(minLevel);
+}
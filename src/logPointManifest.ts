@@ -0,0 +1,116 @@
+// logPointManifest.ts
+import fs from 'fs';
+import type { LoggerConfig } from './dynamicLogger';
+import type { LocalTypes } from './typeManifest';
+import { matchesAnyKeyPattern, stripNamespace } from './keyPatterns';
+import { parseVariablePath } from './variablePaths';
+
+// One dynamicLog call site with a literal uniqueKey, as seen by the transformer
+export interface LogPoint {
+    key: string;
+    file: string;         // Relative to the directory the build ran in
+    line: number;         // 1-based
+    functionName: string; // '<anonymous>' for unnamed functions, '<module>' at the top level of a file
+    variables: LocalTypes; // Injected locals and their types
+}
+
+/**
+ * Written by the transformer when `manifestPath` is set.
+ */
+export interface LogPointManifest {
+    version: 1;
+    logPoints: LogPoint[];
+}
+
+export interface ConfigIssue {
+    key: string;
+    variable?: string; // Set for issues about a single VariablesToLog entry
+    message: string;
+}
+
+export interface CheckConfigsOptions {
+    ignoreKeys?: string[];       // Key patterns (glob) that are not checked, e.g. keys built at runtime
+    contextVariables?: string[]; // Names that come from the async context instead of the call site
+    namespaces?: string[];       // Of the app's namespaced loggers: 'billing:KEY' is checked as the log point key 'KEY'
+}
+
+function isLogPoint(value: any): value is LogPoint {
+    return !!value && typeof value.key === 'string' && typeof value.file === 'string' &&
+        typeof value.line === 'number' && typeof value.functionName === 'string' &&
+        !!value.variables && typeof value.variables === 'object';
+}
+
+export function loadLogPointManifest(manifestPath: string): LogPointManifest {
+    const parsed = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.logPoints) || !parsed.logPoints.every(isLogPoint)) {
+        throw new Error(`DynamicLogger: '${manifestPath}' is not a valid log point manifest.`);
+    }
+    return parsed;
+}
+
+/**
+ * Names that can be used in `VariablesToLog` for a key: the locals of all its call sites, sorted.
+ */
+export function getVariablesForKey(manifest: LogPointManifest, key: string): string[] {
+    const names = new Set<string>();
+    manifest.logPoints
+        .filter(point => point.key === key)
+        .forEach(point => Object.keys(point.variables).forEach(name => names.add(name)));
+    return [...names].sort();
+}
+
+/**
+ * Reports configs for keys that no call site uses anymore, and `VariablesToLog` entries
+ * that none of the key's call sites can provide.
+ */
+export function checkConfigsAgainstManifest(
+    configs: Record<string, Partial<LoggerConfig>>,
+    manifest: LogPointManifest,
+    options: CheckConfigsOptions = {}
+): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    const knownKeys = new Set(manifest.logPoints.map(point => point.key));
+    const contextVariables = new Set(options.contextVariables ?? []);
+
+    // Call sites only know their own key, a namespaced logger prefixes it at runtime
+    const toLogPointKey = (key: string): string => {
+        const namespace = options.namespaces?.find(candidate => stripNamespace(key, candidate) !== key);
+        return namespace ? stripNamespace(key, namespace) : key;
+    };
+
+    for (const [key, config] of Object.entries(configs)) {
+        if (options.ignoreKeys && matchesAnyKeyPattern(key, options.ignoreKeys)) {
+            continue;
+        }
+        const logPointKey = toLogPointKey(key);
+        if (!knownKeys.has(logPointKey)) {
+            issues.push({ key, message: `No log point uses the key '${key}'.` });
+            continue;
+        }
+        const available = new Set(getVariablesForKey(manifest, logPointKey));
+        // Paths are checked by their root: the manifest only knows the locals, not what is inside them
+        const checkVariable = (variable: string, description: string) => {
+            let root: string;
+            try {
+                root = parseVariablePath(variable).root;
+            } catch (e: any) {
+                issues.push({ key, variable, message: `Invalid ${description.toLowerCase()} path: ${e.message}` });
+                return;
+            }
+            if (!available.has(root) && !contextVariables.has(root)) {
+                issues.push({ key, variable, message: `${description} '${root}' is not available at any log point of '${key}'.` });
+            }
+        };
+        for (const variable of config?.VariablesToLog ?? []) {
+            checkVariable(variable, 'Variable');
+        }
+        // Sampling falls back to Math.random() (or a rule never matches) when its variable is missing
+        const samplingVariables = [config?.SampleBy, ...(config?.AlwaysLogWhen ?? []).map(rule => rule?.Variable)];
+        for (const variable of samplingVariables) {
+            if (typeof variable === 'string') {
+                checkVariable(variable, 'Sampling variable');
+            }
+        }
+    }
+    return issues;
+}
@@ -0,0 +1,143 @@
+// logQueue.ts
+
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'block';
+
+export interface LogQueueOptions {
+    maxSize: number;         // Items held before the overflow policy kicks in
+    batchSize: number;       // Items handed to the processor at once
+    flushIntervalMs: number; // Maximum time an item waits for its batch to fill
+    overflowPolicy: OverflowPolicy;
+}
+
+export interface LogQueueStats {
+    queued: number;    // Items currently waiting
+    processed: number; // Items handed to the processor so far
+    dropped: number;   // Items discarded by the overflow policy or after close()
+    blocked: number;   // Callers currently waiting for space ('block' policy)
+}
+
+/**
+ * Bounded in-memory buffer drained in the background by a batch processor.
+ * Timers are unref'd: a pending batch never keeps the process alive on its own,
+ * so owners should drain it explicitly (flush/close) before exiting.
+ */
+export class LogQueue<T> {
+    private items: T[] = [];
+    private spaceWaiters: (() => void)[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private draining: Promise<void> | null = null;
+    private closed = false;
+    private processed = 0;
+    private dropped = 0;
+
+    constructor(private processor: (batch: T[]) => Promise<void>, private options: LogQueueOptions) {}
+
+    /**
+     * Adds an item. Resolves right away, except under the 'block' policy while the queue is full,
+     * where it resolves once there is room again.
+     */
+    public async enqueue(item: T): Promise<void> {
+        if (this.closed) {
+            this.dropped++;
+            return;
+        }
+
+        while (this.items.length >= this.options.maxSize) {
+            if (this.options.overflowPolicy === 'drop-newest') {
+                this.dropped++;
+                return;
+            }
+            if (this.options.overflowPolicy === 'drop-oldest') {
+                this.items.shift();
+                this.dropped++;
+                break;
+            }
+            this.startDraining();
+            await new Promise<void>(resolve => this.spaceWaiters.push(resolve));
+            if (this.closed) {
+                this.dropped++;
+                return;
+            }
+        }
+
+        this.items.push(item);
+        if (this.items.length >= this.options.batchSize) {
+            this.startDraining();
+        } else if (!this.draining) {
+            this.scheduleDrain();
+        }
+    }
+
+    /**
+     * Processes everything queued so far and waits for it to finish.
+     */
+    public async flush(): Promise<void> {
+        while (this.items.length > 0 || this.draining) {
+            await this.startDraining();
+        }
+    }
+
+    /**
+     * Stops accepting items, then flushes. Blocked callers are released and their items dropped.
+     */
+    public async close(): Promise<void> {
+        this.closed = true;
+        this.releaseWaiters();
+        await this.flush();
+    }
+
+    public getStats(): LogQueueStats {
+        return {
+            queued: this.items.length,
+            processed: this.processed,
+            dropped: this.dropped,
+            blocked: this.spaceWaiters.length,
+        };
+    }
+
+    private startDraining(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (!this.draining) {
+            this.draining = this.drain().finally(() => {
+                this.draining = null;
+                if (this.items.length > 0) {
+                    this.scheduleDrain(); // Items that arrived while the last batch settled
+                }
+            });
+        }
+        return this.draining;
+    }
+
+    private scheduleDrain(): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.startDraining();
+        }, this.options.flushIntervalMs);
+        this.timer.unref();
+    }
+
+    private async drain(): Promise<void> {
+        while (this.items.length > 0) {
+            const batch = this.items.splice(0, this.options.batchSize);
+            this.processed += batch.length;
+            this.releaseWaiters();
+            try {
+                await this.processor(batch);
+            } catch (e: any) {
+                console.error("DynamicLogger: Error processing queued log batch:", e.message);
+            }
+        }
+    }
+
+    private releaseWaiters(): void {
+        const waiters = this.spaceWaiters;
+        this.spaceWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+}
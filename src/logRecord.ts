@@ -0,0 +1,46 @@
+// logRecord.ts
+import type { LogLevel } from './levels';
+
+// --- Type Definitions ---
+// 'rule': an AlwaysLogWhen rule matched; 'sample-by': the hash of the SampleBy value; 'random': Math.random()
+export type SamplingReason = 'random' | 'sample-by' | 'rule';
+
+export interface SamplingDecision {
+    rate: number;             // The SamplingRate that was applied
+    sampled: boolean;         // Whether the record passed sampling
+    reason?: SamplingReason;  // Why it passed; absent on rate limit summary records
+    rule?: number;            // Index of the AlwaysLogWhen rule, for reason 'rule'
+}
+
+// Where a dynamicLog call is in the source, injected by the transformer with `injectCallSite`
+export interface CallSite {
+    file: string;         // Relative to the directory the build ran in
+    line: number;         // 1-based
+    column: number;       // 1-based
+    functionName: string; // '<anonymous>' for unnamed functions, '<module>' at the top level of a file
+}
+
+// Set on the summary records that report what a key's rate limits held back
+export interface SuppressionSummary {
+    count: number; // Records suppressed since the previous summary
+    since: string; // ISO-8601 time of the first of them
+}
+
+/**
+ * Structured representation of a single dynamicLog call that passed sampling.
+ * Formatters turn it into a string; log functions may also consume it directly.
+ */
+export interface LogRecord {
+    key: string;                       // The uniqueKey of the log point
+    namespace?: string;                // Namespace of the logger; `key` then starts with '<namespace>:'
+    level: LogLevel;
+    message: string;                   // PrefixMessage + metadata
+    variables: Record<string, any>;    // Values of the locals named in VariablesToLog
+    customOutput?: string;             // Serialized output of CustomLoggingCode, if any ran
+    tags: string[];                    // From LoggerConfig.Tags, used for sink routing
+    timestamp: string;                 // ISO-8601 time at which the record was built
+    sampling: SamplingDecision;
+    context: Record<string, any>;      // Request-scoped values from the AsyncLocalStorage store
+    callSite?: CallSite;               // Only present when the transformer injected it
+    suppressed?: SuppressionSummary;   // Only present on rate limit summary records
+}
@@ -0,0 +1,189 @@
+// loggerMetrics.ts
+import type { LogLevel } from './levels';
+import type { LogQueueStats } from './logQueue';
+import type { SnippetCacheStats } from './snippetCache';
+import { Counter, estimateQuantile, Histogram, HistogramValue, MetricsRegistry } from './metrics';
+
+export interface MetricsOptions {
+    maxKeys?: number;          // Distinct keys tracked before the rest are counted as '_other', default 1000
+    latencyBuckets?: number[]; // Histogram bucket bounds in seconds
+}
+
+// Why a call produced no record
+export type DropReason = 'fetch_error' | 'no_config' | 'invalid_config' | 'level' | 'sampled_out' | 'rate_limited';
+export type ConfigFetchResult = 'success' | 'error' | 'timeout';
+export type CustomCodeErrorKind = 'violation' | 'error' | 'timeout';
+
+export interface LatencyStats {
+    count: number;
+    meanMs: number;
+    p50Ms: number; // Percentiles are estimated from the histogram buckets
+    p95Ms: number;
+    p99Ms: number;
+    maxMs: number;
+}
+
+export interface KeyStats {
+    calls: number;
+    records: number;
+    dropped: Record<DropReason, number>;
+    configFetches: Record<ConfigFetchResult, number>; // Calls to the ConfigFetcher, i.e. cache misses and refreshes
+    configFetchLatency: LatencyStats;
+    logLatency: LatencyStats; // From the call being processed to the record being written
+    customCodeErrors: Record<CustomCodeErrorKind, number>;
+}
+
+export interface LoggerStats {
+    totals: KeyStats;
+    keys: Record<string, KeyStats>;
+    sinkErrors: Record<string, number>; // By sink name; 'logFunction' for the logger's own function
+    queue: LogQueueStats | null;
+    snippetCache: SnippetCacheStats;
+}
+
+const dropReasons: DropReason[] = ['fetch_error', 'no_config', 'invalid_config', 'level', 'sampled_out', 'rate_limited'];
+const fetchResults: ConfigFetchResult[] = ['success', 'error', 'timeout'];
+const customCodeErrorKinds: CustomCodeErrorKind[] = ['violation', 'error', 'timeout'];
+
+function zeroCounts<T extends string>(names: T[]): Record<T, number> {
+    return Object.fromEntries(names.map(name => [name, 0])) as Record<T, number>;
+}
+
+/**
+ * The logger's own metrics, kept in a MetricsRegistry for the Prometheus exporter and summarized by `getStats()`.
+ */
+export class LoggerMetrics {
+    public readonly registry: MetricsRegistry;
+    private calls: Counter;
+    private records: Counter;
+    private dropped: Counter;
+    private configFetches: Counter;
+    private configFetchDuration: Histogram;
+    private logDuration: Histogram;
+    private customCodeErrors: Counter;
+    private sinkErrors: Counter;
+
+    constructor(options: MetricsOptions = {}) {
+        this.registry = new MetricsRegistry(options.maxKeys ?? 1000);
+        const buckets = options.latencyBuckets;
+        this.calls = this.registry.counter('dynamic_logger_calls_total', 'dynamicLog calls processed.', ['key']);
+        this.records = this.registry.counter('dynamic_logger_records_total', 'Records written.', ['key', 'level']);
+        this.dropped = this.registry.counter('dynamic_logger_dropped_total', 'Calls that produced no record, by reason.', ['key', 'reason']);
+        this.configFetches = this.registry.counter('dynamic_logger_config_fetches_total', 'ConfigFetcher calls, by result.', ['key', 'result']);
+        this.configFetchDuration = this.registry.histogram('dynamic_logger_config_fetch_duration_seconds', 'ConfigFetcher latency, including timeouts.', ['key'], buckets);
+        this.logDuration = this.registry.histogram('dynamic_logger_log_duration_seconds', 'Time from processing a call to writing its record.', ['key'], buckets);
+        this.customCodeErrors = this.registry.counter('dynamic_logger_custom_code_errors_total', 'CustomLoggingCode runs that failed validation, threw or timed out.', ['key', 'kind']);
+        this.sinkErrors = this.registry.counter('dynamic_logger_sink_errors_total', 'Failed writes, by sink.', ['sink']);
+    }
+
+    /**
+     * Adds gauges read from the logger when the metrics are collected.
+     */
+    public watchQueue(getStats: () => LogQueueStats | null): void {
+        this.registry.gauge('dynamic_logger_queue_items', 'Calls waiting in the background buffer.', [], () => {
+            const stats = getStats();
+            return stats ? [{ labels: {}, value: stats.queued }] : [];
+        });
+        this.registry.gauge('dynamic_logger_queue_dropped', 'Calls discarded by the background buffer so far.', [], () => {
+            const stats = getStats();
+            return stats ? [{ labels: {}, value: stats.dropped }] : [];
+        });
+    }
+
+    public recordCall(key: string): void {
+        this.calls.inc({ key });
+    }
+
+    public recordRecord(key: string, level: LogLevel, startedAt: number): void {
+        this.records.inc({ key, level });
+        this.logDuration.observe({ key }, (performance.now() - startedAt) / 1000);
+    }
+
+    public recordDrop(key: string, reason: DropReason): void {
+        this.dropped.inc({ key, reason });
+    }
+
+    public recordConfigFetch(key: string, result: ConfigFetchResult, startedAt: number): void {
+        this.configFetches.inc({ key, result });
+        this.configFetchDuration.observe({ key }, (performance.now() - startedAt) / 1000);
+    }
+
+    public recordCustomCodeError(key: string, kind: CustomCodeErrorKind): void {
+        this.customCodeErrors.inc({ key, kind });
+    }
+
+    public recordSinkError(sink: string): void {
+        this.sinkErrors.inc({ sink });
+    }
+
+    public getStats(queue: LogQueueStats | null, snippetCache: SnippetCacheStats): LoggerStats {
+        const keys: Record<string, KeyStats> = {};
+        const histograms = new Map<string, { fetch: HistogramValue[]; log: HistogramValue[] }>();
+        const statsFor = (key: string) => {
+            if (!keys[key]) {
+                keys[key] = emptyKeyStats();
+                histograms.set(key, { fetch: [], log: [] });
+            }
+            return keys[key];
+        };
+
+        this.calls.collect().forEach(({ labels, value }) => { statsFor(labels.key).calls += value; });
+        this.records.collect().forEach(({ labels, value }) => { statsFor(labels.key).records += value; });
+        this.dropped.collect().forEach(({ labels, value }) => { statsFor(labels.key).dropped[labels.reason as DropReason] += value; });
+        this.configFetches.collect().forEach(({ labels, value }) => { statsFor(labels.key).configFetches[labels.result as ConfigFetchResult] += value; });
+        this.customCodeErrors.collect().forEach(({ labels, value }) => { statsFor(labels.key).customCodeErrors[labels.kind as CustomCodeErrorKind] += value; });
+        this.configFetchDuration.collect().forEach(({ labels, value }) => { statsFor(labels.key); histograms.get(labels.key)!.fetch.push(value); });
+        this.logDuration.collect().forEach(({ labels, value }) => { statsFor(labels.key); histograms.get(labels.key)!.log.push(value); });
+
+        const totals = emptyKeyStats();
+        for (const [key, stats] of Object.entries(keys)) {
+            stats.configFetchLatency = this.latency(this.configFetchDuration, histograms.get(key)!.fetch);
+            stats.logLatency = this.latency(this.logDuration, histograms.get(key)!.log);
+            totals.calls += stats.calls;
+            totals.records += stats.records;
+            dropReasons.forEach(reason => { totals.dropped[reason] += stats.dropped[reason]; });
+            fetchResults.forEach(result => { totals.configFetches[result] += stats.configFetches[result]; });
+            customCodeErrorKinds.forEach(kind => { totals.customCodeErrors[kind] += stats.customCodeErrors[kind]; });
+        }
+        totals.configFetchLatency = this.latency(this.configFetchDuration, [...histograms.values()].flatMap(h => h.fetch));
+        totals.logLatency = this.latency(this.logDuration, [...histograms.values()].flatMap(h => h.log));
+
+        const sinkErrors: Record<string, number> = {};
+        this.sinkErrors.collect().forEach(({ labels, value }) => { sinkErrors[labels.sink] = value; });
+
+        return { totals, keys, sinkErrors, queue, snippetCache };
+    }
+
+    // Merges the histograms of one metric (e.g. of several keys) into a summary in milliseconds
+    private latency(metric: Histogram, values: HistogramValue[]): LatencyStats {
+        const merged: HistogramValue = { counts: new Array(metric.buckets.length + 1).fill(0), sum: 0, count: 0, max: 0 };
+        for (const value of values) {
+            value.counts.forEach((count, i) => { merged.counts[i] += count; });
+            merged.sum += value.sum;
+            merged.count += value.count;
+            merged.max = Math.max(merged.max, value.max);
+        }
+        const ms = (seconds: number) => Math.round(seconds * 1000 * 1000) / 1000; // Microsecond precision
+        return {
+            count: merged.count,
+            meanMs: merged.count > 0 ? ms(merged.sum / merged.count) : 0,
+            p50Ms: ms(estimateQuantile(merged, metric.buckets, 0.5)),
+            p95Ms: ms(estimateQuantile(merged, metric.buckets, 0.95)),
+            p99Ms: ms(estimateQuantile(merged, metric.buckets, 0.99)),
+            maxMs: ms(merged.max),
+        };
+    }
+}
+
+function emptyKeyStats(): KeyStats {
+    const noLatency: LatencyStats = { count: 0, meanMs: 0, p50Ms: 0, p95Ms: 0, p99Ms: 0, maxMs: 0 };
+    return {
+        calls: 0,
+        records: 0,
+        dropped: zeroCounts(dropReasons),
+        configFetches: zeroCounts(fetchResults),
+        configFetchLatency: { ...noLatency },
+        logLatency: { ...noLatency },
+        customCodeErrors: zeroCounts(customCodeErrorKinds),
+    };
+}
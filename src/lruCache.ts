@@ -0,0 +1,74 @@
+// lruCache.ts
+
+export interface LruCacheStats {
+    size: number;
+    maxSize: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+}
+
+/**
+ * Size-bounded map that evicts the least recently used entry. Relies on Map keeping insertion order:
+ * a hit re-inserts the entry, so the first key is always the least recently used one.
+ */
+export class LruCache<K, V> {
+    private entries = new Map<K, V>();
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    constructor(private maxSize: number) {}
+
+    public get(key: K): V | undefined {
+        if (!this.entries.has(key)) {
+            this.misses++;
+            return undefined;
+        }
+        const value = this.entries.get(key)!;
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        this.hits++;
+        return value;
+    }
+
+    public set(key: K, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        while (this.entries.size > this.maxSize) {
+            this.entries.delete(this.entries.keys().next().value as K);
+            this.evictions++;
+        }
+    }
+
+    /**
+     * Returns the cached value, computing and storing it on a miss.
+     */
+    public getOrCreate(key: K, create: () => V): V {
+        const cached = this.get(key);
+        if (cached !== undefined) {
+            return cached;
+        }
+        const value = create();
+        this.set(key, value);
+        return value;
+    }
+
+    public delete(key: K): boolean {
+        return this.entries.delete(key);
+    }
+
+    public clear(): void {
+        this.entries.clear();
+    }
+
+    public getStats(): LruCacheStats {
+        return {
+            size: this.entries.size,
+            maxSize: this.maxSize,
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+        };
+    }
+}
@@ -0,0 +1,179 @@
+// metrics.ts
+
+export type MetricLabels = Record<string, string>;
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface HistogramValue {
+    counts: number[]; // Observations per bucket (not cumulative); the last one is the +Inf bucket
+    sum: number;
+    count: number;
+    max: number;
+}
+
+export interface MetricSample<V> {
+    labels: MetricLabels;
+    value: V;
+}
+
+// Seconds, from half a millisecond (a cached config) to the default fetch timeout and beyond
+export const defaultLatencyBuckets = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+// Stands in for `key` label values beyond the registry's maxKeys
+export const otherKeysLabel = '_other';
+
+abstract class Metric<V> {
+    public abstract readonly type: MetricType;
+    protected samples = new Map<string, MetricSample<V>>();
+
+    constructor(
+        public readonly name: string,
+        public readonly help: string,
+        public readonly labelNames: string[],
+        protected registry: MetricsRegistry
+    ) {}
+
+    public collect(): MetricSample<V>[] {
+        return [...this.samples.values()];
+    }
+
+    public reset(): void {
+        this.samples.clear();
+    }
+
+    protected sample(labels: MetricLabels, create: () => V): MetricSample<V> {
+        const normalized = this.registry.normalizeLabels(labels);
+        const id = this.labelNames.map(name => normalized[name] ?? '').join('\u0000');
+        let sample = this.samples.get(id);
+        if (!sample) {
+            sample = { labels: normalized, value: create() };
+            this.samples.set(id, sample);
+        }
+        return sample;
+    }
+}
+
+export class Counter extends Metric<number> {
+    public readonly type = 'counter';
+
+    public inc(labels: MetricLabels = {}, amount = 1): void {
+        this.sample(labels, () => 0).value += amount;
+    }
+}
+
+export class Histogram extends Metric<HistogramValue> {
+    public readonly type = 'histogram';
+
+    constructor(name: string, help: string, labelNames: string[], registry: MetricsRegistry, public readonly buckets: number[]) {
+        super(name, help, labelNames, registry);
+    }
+
+    public observe(labels: MetricLabels, value: number): void {
+        const histogram = this.sample(labels, () => ({ counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0, max: 0 })).value;
+        const index = this.buckets.findIndex(bound => value <= bound);
+        histogram.counts[index === -1 ? this.buckets.length : index]++;
+        histogram.sum += value;
+        histogram.count++;
+        histogram.max = Math.max(histogram.max, value);
+    }
+}
+
+/**
+ * A value read when the metrics are collected, e.g. the current queue length.
+ */
+export class Gauge extends Metric<number> {
+    public readonly type = 'gauge';
+
+    constructor(name: string, help: string, labelNames: string[], registry: MetricsRegistry,
+                private read: () => MetricSample<number>[]) {
+        super(name, help, labelNames, registry);
+    }
+
+    public collect(): MetricSample<number>[] {
+        return this.read();
+    }
+}
+
+export type AnyMetric = Counter | Gauge | Histogram;
+
+/**
+ * Holds the metrics of one logger. Metrics are created once by name; asking for an existing name returns it.
+ * The number of distinct `key` label values is capped, so generated keys can't grow memory without bound:
+ * keys seen after the first `maxKeys` are counted under '_other'.
+ */
+export class MetricsRegistry {
+    private metrics = new Map<string, AnyMetric>();
+    private keys = new Set<string>();
+
+    constructor(private maxKeys = 1000) {}
+
+    public counter(name: string, help: string, labelNames: string[] = []): Counter {
+        return this.register(name, () => new Counter(name, help, labelNames, this));
+    }
+
+    public histogram(name: string, help: string, labelNames: string[] = [], buckets = defaultLatencyBuckets): Histogram {
+        return this.register(name, () => new Histogram(name, help, labelNames, this, [...buckets].sort((a, b) => a - b)));
+    }
+
+    public gauge(name: string, help: string, labelNames: string[], read: () => MetricSample<number>[]): Gauge {
+        return this.register(name, () => new Gauge(name, help, labelNames, this, read));
+    }
+
+    public getMetrics(): AnyMetric[] {
+        return [...this.metrics.values()];
+    }
+
+    /**
+     * Clears every counter and histogram (gauges are read live).
+     */
+    public reset(): void {
+        this.metrics.forEach(metric => metric.reset());
+        this.keys.clear();
+    }
+
+    public normalizeLabels(labels: MetricLabels): MetricLabels {
+        const key = labels.key;
+        if (key === undefined || this.keys.has(key)) {
+            return labels;
+        }
+        if (this.keys.size >= this.maxKeys) {
+            return { ...labels, key: otherKeysLabel };
+        }
+        this.keys.add(key);
+        return labels;
+    }
+
+    private register<T extends AnyMetric>(name: string, create: () => T): T {
+        const existing = this.metrics.get(name);
+        if (existing) {
+            return existing as T;
+        }
+        const metric = create();
+        this.metrics.set(name, metric);
+        return metric;
+    }
+}
+
+/**
+ * Estimates a quantile (0..1) of a histogram by interpolating inside the bucket it falls in.
+ * Values in the +Inf bucket are estimated as the largest observation.
+ */
+export function estimateQuantile(histogram: HistogramValue, buckets: number[], quantile: number): number {
+    if (histogram.count === 0) {
+        return 0;
+    }
+    const rank = quantile * histogram.count;
+    let seen = 0;
+    for (let i = 0; i < histogram.counts.length; i++) {
+        const inBucket = histogram.counts[i];
+        if (inBucket > 0 && seen + inBucket >= rank) {
+            if (i === buckets.length) {
+                return histogram.max;
+            }
+            const lower = i === 0 ? 0 : buckets[i - 1];
+            const upper = Math.min(buckets[i], histogram.max);
+            return lower + (upper - lower) * Math.max(0, rank - seen) / inBucket;
+        }
+        seen += inBucket;
+    }
+    return histogram.max;
+}
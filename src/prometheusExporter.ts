@@ -0,0 +1,71 @@
+// prometheusExporter.ts
+import type { Request, Response } from 'express';
+import type { MetricLabels, MetricsRegistry } from './metrics';
+
+export const prometheusContentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+    return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels, extra?: [string, string]): string {
+    const pairs = Object.entries(labels);
+    if (extra) {
+        pairs.push(extra);
+    }
+    if (pairs.length === 0) {
+        return '';
+    }
+    return `{${pairs.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatNumber(value: number): string {
+    if (value === Infinity) {
+        return '+Inf';
+    }
+    return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+/**
+ * Renders the metrics in the Prometheus text exposition format (version 0.0.4).
+ */
+export function formatPrometheusMetrics(registry: MetricsRegistry): string {
+    const lines: string[] = [];
+    for (const metric of registry.getMetrics()) {
+        lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+        lines.push(`# TYPE ${metric.name} ${metric.type}`);
+        if (metric.type !== 'histogram') {
+            for (const { labels, value } of metric.collect()) {
+                lines.push(`${metric.name}${formatLabels(labels)} ${formatNumber(value)}`);
+            }
+            continue;
+        }
+        for (const { labels, value } of metric.collect()) {
+            // Buckets are cumulative in the exposition format
+            let cumulative = 0;
+            [...metric.buckets, Infinity].forEach((bound, i) => {
+                cumulative += value.counts[i];
+                lines.push(`${metric.name}_bucket${formatLabels(labels, ['le', formatNumber(bound)])} ${cumulative}`);
+            });
+            lines.push(`${metric.name}_sum${formatLabels(labels)} ${formatNumber(value.sum)}`);
+            lines.push(`${metric.name}_count${formatLabels(labels)} ${value.count}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Express handler that serves the metrics for Prometheus to scrape:
+ *     app.get('/metrics', createMetricsHandler(dLogger.getMetricsRegistry()));
+ * It has no auth of its own: mount it where only the scraper can reach it, or behind your auth middleware.
+ */
+export function createMetricsHandler(registry: MetricsRegistry | (() => MetricsRegistry)): (req: Request, res: Response) => void {
+    return (req: Request, res: Response): void => {
+        const resolved = typeof registry === 'function' ? registry() : registry;
+        res.type(prometheusContentType).send(formatPrometheusMetrics(resolved));
+    };
+}
@@ -0,0 +1,106 @@
+// rateLimiter.ts
+
+export interface RateLimits {
+    maxPerSecond?: number; // Token bucket refill rate
+    burstSize?: number;    // Token bucket capacity, default max(1, maxPerSecond)
+    firstN?: number;       // Records let through before `thenEvery` applies
+    thenEvery?: number;    // After the first N, every Mth record is let through (none if unset)
+}
+
+// Records of one key that were held back since the last summary
+export interface SuppressedRecords {
+    key: string;
+    count: number;
+    since: number; // Epoch ms of the first suppressed record
+}
+
+interface KeyState {
+    tokens: number;
+    refilledAt: number;
+    seen: number; // Records that reached the limiter, for first-N / every-Mth
+    suppressed: number;
+    suppressedSince: number;
+}
+
+export function hasRateLimits(limits: RateLimits): boolean {
+    return limits.maxPerSecond !== undefined || limits.firstN !== undefined || limits.thenEvery !== undefined;
+}
+
+/**
+ * Per-key rate limiting of records that already passed sampling: a token bucket (`maxPerSecond`/`burstSize`)
+ * and a "first N, then every Mth" counter. A record has to pass both. Suppressed records are counted
+ * per key until `takeSuppressed()` reports them.
+ */
+export class RateLimiter {
+    private states = new Map<string, KeyState>();
+
+    public tryAcquire(key: string, limits: RateLimits, now = Date.now()): boolean {
+        let state = this.states.get(key);
+        if (!state) {
+            state = { tokens: this.capacity(limits), refilledAt: now, seen: 0, suppressed: 0, suppressedSince: 0 };
+            this.states.set(key, state);
+        }
+
+        state.seen++;
+        let allowed = true;
+        if (limits.firstN !== undefined || limits.thenEvery !== undefined) {
+            const firstN = limits.firstN ?? 0;
+            const afterFirst = state.seen - firstN;
+            allowed = afterFirst <= 0 || (limits.thenEvery !== undefined && afterFirst % limits.thenEvery === 0);
+        }
+
+        if (limits.maxPerSecond !== undefined) {
+            const capacity = this.capacity(limits);
+            state.tokens = Math.min(capacity, state.tokens + (now - state.refilledAt) / 1000 * limits.maxPerSecond);
+            state.refilledAt = now;
+            // The counter decides first, so a record it drops doesn't use up a token
+            if (allowed) {
+                allowed = state.tokens >= 1;
+                if (allowed) {
+                    state.tokens -= 1;
+                }
+            }
+        }
+
+        if (!allowed) {
+            if (state.suppressed === 0) {
+                state.suppressedSince = now;
+            }
+            state.suppressed++;
+        }
+        return allowed;
+    }
+
+    /**
+     * Returns the keys with suppressed records since the last call, and resets their counts.
+     */
+    public takeSuppressed(): SuppressedRecords[] {
+        const result: SuppressedRecords[] = [];
+        for (const [key, state] of this.states) {
+            if (state.suppressed > 0) {
+                result.push({ key, count: state.suppressed, since: state.suppressedSince });
+                state.suppressed = 0;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Forgets a key's bucket and counter, e.g. after its config changed.
+     */
+    public reset(key: string): void {
+        const state = this.states.get(key);
+        if (state && state.suppressed === 0) {
+            this.states.delete(key);
+        } else if (state) {
+            // Keep the count so the next summary still reports it
+            state.seen = 0;
+            state.refilledAt = 0;
+            state.tokens = Infinity;
+        }
+    }
+
+    private capacity(limits: RateLimits): number {
+        return limits.burstSize ?? Math.max(1, limits.maxPerSecond ?? 1);
+    }
+}
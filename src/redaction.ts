@@ -0,0 +1,105 @@
+// redaction.ts
+
+export interface RedactionOptions {
+    keys?: (string | RegExp)[];     // Property/variable names whose values are replaced
+    patterns?: (string | RegExp)[]; // Matches inside string values (and CustomLoggingCode output) are replaced
+    replacement?: string;           // Default '[REDACTED]'
+    defaultKeys?: boolean;          // Also redact `defaultRedactedKeys`, default true
+}
+
+// Per-key rules in a LoggerConfig, added to the logger-wide ones. Strings only, so they survive JSON.
+export interface RedactConfig {
+    Keys?: string[];     // Property/variable names
+    Patterns?: string[]; // Regular expression sources
+}
+
+/**
+ * Names that look like credentials. They match anywhere in the name unless anchored,
+ * so `userPassword` and `x-api-key` are covered but `tokenizer` is not.
+ */
+export const defaultRedactedKeys: RegExp[] = [
+    /passw(or)?d|passphrase|^pwd$/i,
+    /secret/i,
+    /tokens?$|^auth$/i,
+    /api[-_]?key/i,
+    /^authorization$|^cookie$|^set-cookie$/i,
+    /private[-_]?key/i,
+    /^ssn$|^cvv$|card[-_]?number/i,
+];
+
+/**
+ * Opt-in value patterns for common personal data, e.g. `redaction: { patterns: commonRedactionPatterns }`.
+ */
+export const commonRedactionPatterns: RegExp[] = [
+    /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,            // E-mail addresses
+    /\b(?:\d[ -]?){13,19}\b/g,                                     // Payment card numbers
+    /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,        // JWTs
+    /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi,                           // Bearer credentials
+];
+
+// Case and separators don't matter for string key rules: 'api_key' covers 'apiKey' and 'API-KEY'
+function normalizeKeyName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function toGlobalRegExp(pattern: string | RegExp): RegExp {
+    if (typeof pattern === 'string') {
+        return new RegExp(pattern, 'g');
+    }
+    return pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+}
+
+/**
+ * Decides which keys and string fragments are replaced. Immutable; `extend` returns a new one
+ * with a LoggerConfig's `Redact` rules added.
+ */
+export class Redactor {
+    public readonly replacement: string;
+    private readonly keyNames: Set<string>;
+    private readonly keyPatterns: RegExp[];
+    private readonly valuePatterns: RegExp[];
+
+    constructor(private readonly options: RedactionOptions = {}) {
+        this.replacement = options.replacement ?? '[REDACTED]';
+        const keys = [...(options.defaultKeys ?? true ? defaultRedactedKeys : []), ...(options.keys ?? [])];
+        this.keyNames = new Set(keys.filter((key): key is string => typeof key === 'string').map(normalizeKeyName));
+        this.keyPatterns = keys.filter((key): key is RegExp => key instanceof RegExp);
+        this.valuePatterns = (options.patterns ?? []).map(toGlobalRegExp);
+    }
+
+    /**
+     * Adds a LoggerConfig's rules. Patterns that aren't valid regular expressions are reported
+     * through `onInvalidPattern` and skipped.
+     */
+    public extend(config: RedactConfig, onInvalidPattern?: (pattern: string, error: Error) => void): Redactor {
+        const patterns: (string | RegExp)[] = [];
+        for (const pattern of config.Patterns ?? []) {
+            try {
+                patterns.push(toGlobalRegExp(pattern));
+            } catch (e: any) {
+                onInvalidPattern?.(pattern, e);
+            }
+        }
+        return new Redactor({
+            ...this.options,
+            keys: [...(this.options.keys ?? []), ...(config.Keys ?? [])],
+            patterns: [...(this.options.patterns ?? []), ...patterns],
+        });
+    }
+
+    public isRedactedKey(name: string): boolean {
+        return this.keyNames.has(normalizeKeyName(name)) || this.keyPatterns.some(pattern => {
+            pattern.lastIndex = 0; // In case a key rule was given with the 'g' flag
+            return pattern.test(name);
+        });
+    }
+
+    public redactString(value: string): string {
+        let result = value;
+        for (const pattern of this.valuePatterns) {
+            pattern.lastIndex = 0;
+            result = result.replace(pattern, this.replacement);
+        }
+        return result;
+    }
+}
@@ -0,0 +1,138 @@
+// safeSerializer.ts
+import type { Redactor } from './redaction';
+
+export interface SerializationOptions {
+    maxDepth?: number;        // Nesting below this is replaced by '[MaxDepth]', default 6
+    maxStringLength?: number; // Longer strings are truncated, default 2048
+    maxArrayLength?: number;  // Items (and Map/Set entries, object keys) kept per collection, default 100
+    maxBinaryBytes?: number;  // Bytes of a Buffer/typed array shown as hex, default 32
+}
+
+const defaults: Required<SerializationOptions> = {
+    maxDepth: 6,
+    maxStringLength: 2048,
+    maxArrayLength: 100,
+    maxBinaryBytes: 32,
+};
+
+/**
+ * Turns any value into a JSON-safe copy that is bounded in size and has the redaction rules applied:
+ * - cycles become '[Circular]', nesting beyond `maxDepth` becomes '[MaxDepth]'
+ * - long strings, arrays, Maps, Sets and objects are truncated with a note of what was left out
+ * - Error, Map, Set, BigInt, Buffer/typed arrays, functions and symbols get a readable form
+ * - values of redacted keys are replaced, and value patterns are applied to every string
+ * A value that throws while being read (e.g. a getter) becomes '[Unreadable: <message>]'.
+ */
+export function toSafeValue(value: unknown, redactor: Redactor, options: SerializationOptions = {}): unknown {
+    const limits = { ...defaults, ...options };
+    const ancestors: object[] = []; // Only the current path: an object seen twice in siblings isn't a cycle
+
+    const visit = (current: unknown, depth: number): unknown => {
+        switch (typeof current) {
+            case 'string':
+                return truncateString(redactor.redactString(current), limits.maxStringLength);
+            case 'bigint':
+                return `${current}n`;
+            case 'symbol':
+                return current.toString();
+            case 'function':
+                return `[Function ${current.name || '<anonymous>'}]`;
+            case 'number':
+                return Number.isFinite(current) ? current : String(current); // JSON would turn NaN/Infinity into null
+            case 'object':
+                break;
+            default:
+                return current; // boolean, undefined
+        }
+        if (current === null) {
+            return null;
+        }
+        if (ancestors.includes(current)) {
+            return '[Circular]';
+        }
+        if (depth >= limits.maxDepth) {
+            return '[MaxDepth]';
+        }
+
+        ancestors.push(current);
+        try {
+            return visitObject(current, depth);
+        } catch (e: any) {
+            return `[Unreadable: ${e?.message ?? e}]`;
+        } finally {
+            ancestors.pop();
+        }
+    };
+
+    const visitEntries = (entries: Iterable<[string, unknown]>, depth: number, size: number): Record<string, unknown> => {
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of entries) {
+            result[key] = redactor.isRedactedKey(key) ? redactor.replacement : visit(item, depth + 1);
+        }
+        if (size > limits.maxArrayLength) {
+            result['[Truncated]'] = `${size - limits.maxArrayLength} more key(s)`;
+        }
+        return result;
+    };
+
+    const visitItems = (items: unknown[], depth: number, size: number): unknown[] => {
+        const result = items.slice(0, limits.maxArrayLength).map(item => visit(item, depth + 1));
+        if (size > limits.maxArrayLength) {
+            result.push(`[${size - limits.maxArrayLength} more item(s)]`);
+        }
+        return result;
+    };
+
+    const visitObject = (current: object, depth: number): unknown => {
+        if (current instanceof Date) {
+            return Number.isNaN(current.getTime()) ? 'Invalid Date' : current.toISOString();
+        }
+        if (current instanceof Error) {
+            const error: Record<string, unknown> = { name: current.name, message: visit(current.message, depth) };
+            if (current.stack) {
+                error.stack = visit(current.stack, depth);
+            }
+            const { code, cause } = current as { code?: unknown; cause?: unknown }; // Not in the ES2020 typings
+            if (code !== undefined) {
+                error.code = visit(code, depth);
+            }
+            if (cause !== undefined) {
+                error.cause = visit(cause, depth + 1);
+            }
+            return error;
+        }
+        if (ArrayBuffer.isView(current)) {
+            const bytes = Buffer.from(current.buffer, current.byteOffset, current.byteLength);
+            const typeName = Buffer.isBuffer(current) ? 'Buffer' : current.constructor.name;
+            const preview = bytes.subarray(0, limits.maxBinaryBytes).toString('hex');
+            const more = bytes.length > limits.maxBinaryBytes ? '...' : '';
+            return `[${typeName} ${bytes.length} bytes: ${preview}${more}]`;
+        }
+        if (current instanceof Map) {
+            const entries = [...current.entries()].slice(0, limits.maxArrayLength)
+                .map(([key, item]): [string, unknown] => [typeof key === 'string' ? key : JSON.stringify(visit(key, depth + 1)) ?? String(key), item]);
+            return { '[Map]': visitEntries(entries, depth, current.size) };
+        }
+        if (current instanceof Set) {
+            return { '[Set]': visitItems([...current].slice(0, limits.maxArrayLength), depth, current.size) };
+        }
+        if (Array.isArray(current)) {
+            return visitItems(current, depth, current.length);
+        }
+        if (typeof (current as any).toJSON === 'function') {
+            // Respect custom JSON representations, as JSON.stringify would
+            return visit((current as any).toJSON(), depth);
+        }
+        const keys = Object.keys(current);
+        return visitEntries(keys.slice(0, limits.maxArrayLength).map(key => [key, (current as any)[key]]), depth, keys.length);
+    };
+
+    return visit(value, 0);
+}
+
+function truncateString(value: string, maxLength: number): string {
+    if (value.length <= maxLength) {
+        return value;
+    }
+    return `${value.slice(0, maxLength)}...[${value.length - maxLength} more chars]`;
+}
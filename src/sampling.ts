@@ -0,0 +1,72 @@
+// sampling.ts
+import type { SamplingReason } from './logRecord';
+
+// "Always log when `Variable` is one of `In`", checked before SamplingRate
+export interface SamplingRule {
+    Variable: string;                       // Looked up like SampleBy: the injected locals, then the ALS store
+    In: (string | number | boolean)[];      // Compared as strings, so 42 matches "42"
+}
+
+export interface SamplingOutcome {
+    sampled: boolean;
+    reason: SamplingReason;
+    rule?: number; // Index of the matching AlwaysLogWhen rule
+}
+
+export function isSamplingRule(value: any): value is SamplingRule {
+    return !!value && typeof value.Variable === 'string' && Array.isArray(value.In);
+}
+
+/**
+ * 32-bit FNV-1a hash of the string's UTF-16 code units, followed by MurmurHash3's finalizer.
+ * Plain FNV-1a barely changes the high bits for IDs that differ only in their last character
+ * ('req-1', 'req-2', ...), and the high bits are what decide sampling.
+ */
+export function hashSamplingValue(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+}
+
+function isPrimitive(value: unknown): value is string | number | boolean | bigint {
+    return ['string', 'number', 'boolean', 'bigint'].includes(typeof value);
+}
+
+/**
+ * Decides whether a record is kept. A matching rule always keeps it. Otherwise, with a `sampleBy` value,
+ * the value's hash decides: the same value gives the same answer at every log point with the same (or a
+ * higher) rate, so a sampled request keeps all its records. Without one, it falls back to Math.random().
+ * @param lookup Returns the value of a local or ALS variable, undefined if there is none
+ */
+export function decideSampling(
+    rate: number,
+    lookup: (name: string) => unknown,
+    sampleBy?: string,
+    rules?: SamplingRule[]
+): SamplingOutcome {
+    for (const [index, rule] of (rules ?? []).entries()) {
+        const value = lookup(rule.Variable);
+        if (isPrimitive(value) && rule.In.some(candidate => String(candidate) === String(value))) {
+            return { sampled: true, reason: 'rule', rule: index };
+        }
+    }
+    if (rate <= 0) {
+        return { sampled: false, reason: 'random' };
+    }
+    if (sampleBy !== undefined) {
+        const value = lookup(sampleBy);
+        if (isPrimitive(value)) {
+            // Map the hash to [0, 1)
+            return { sampled: hashSamplingValue(String(value)) / 0x100000000 < rate, reason: 'sample-by' };
+        }
+    }
+    return { sampled: Math.random() < rate, reason: 'random' };
+}
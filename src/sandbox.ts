@@ -0,0 +1,267 @@
+// sandbox.ts
+import vm from 'vm';
+import { safeGlobalObjectsAndNamespaces, safeGlobalValues } from './validators';
+
+export interface SandboxOptions {
+    timeoutMs: number;      // CPU budget for a single execution
+    maxOutputBytes: number; // Longer outputs are truncated
+}
+
+const allowedGlobals = [...safeGlobalObjectsAndNamespaces, ...safeGlobalValues];
+
+// Runs once inside every new context: removes everything that isn't allowed, then freezes what is left
+// and pins the allowed globals so they can't be reassigned.
+// Runs sloppy on purpose, deleting a non-configurable global is a silent no-op there.
+const contextSetupCode = `
+(function (global) {
+    var functionPrototype = Object.getPrototypeOf(function () {});
+    var allowed = ${JSON.stringify(allowedGlobals)};
+    Object.getOwnPropertyNames(global).forEach(function (name) {
+        if (allowed.indexOf(name) === -1) { delete global[name]; }
+    });
+    allowed.forEach(function (name) {
+        var value = global[name];
+        if (value !== null && (typeof value === 'object' || typeof value === 'function')) {
+            Object.freeze(value);
+            if (value.prototype) { Object.freeze(value.prototype); }
+        }
+        Object.defineProperty(global, name, { value: value, writable: false, configurable: false });
+    });
+    Object.freeze(functionPrototype);
+    // The slot the host writes each run's serialized locals into
+    Object.defineProperty(global, '__dlSlot', { value: Object.seal({ input: '{}' }), writable: false, configurable: false });
+})(this);
+`;
+const contextSetupScript = new vm.Script(contextSetupCode, { filename: 'dynamic-logger-sandbox-setup.js' });
+
+// Runs after every snippet: the global object of a vm context can't be frozen, so anything a snippet
+// managed to add to it is deleted again. Returns false if something could not be removed.
+const contextCleanupCode = `
+(function (global) {
+    var keep = ${JSON.stringify([...allowedGlobals, '__dlSlot'])};
+    var clean = true;
+    Object.getOwnPropertyNames(global).forEach(function (name) {
+        if (keep.indexOf(name) === -1 && !delete global[name]) { clean = false; }
+    });
+    return clean;
+})(this);
+`;
+const contextCleanupScript = new vm.Script(contextCleanupCode, { filename: 'dynamic-logger-sandbox-cleanup.js' });
+
+const identifierPattern = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Names of the locals a snippet gets declarations for. Sorted, so the same set of locals
+ * always produces the same script source.
+ */
+export function getLocalNames(locals: Record<string, any>): string[] {
+    return Object.keys(locals).filter(name => identifierPattern.test(name)).sort();
+}
+
+// Marks the values that are rebuilt inside the context; plain JSON would turn them into strings and `{}`
+const typeTag = '__dl$type';
+
+// What is copied into the context per run, across all locals. Locals can be large objects (a request,
+// a server), so nesting beyond maxDepth becomes '[MaxDepth]' and values beyond maxValues '[Truncated]'.
+const transferLimits = { maxDepth: 8, maxValues: 10000 };
+
+// Makes JSON-ready copies of the locals of one run. Dates, Maps and Sets are tagged so they can be rebuilt in
+// the sandbox realm, other objects (class instances included) keep their own enumerable data and lose their
+// methods. An object reached again is not walked again: its copy is reused, and counted against the budget
+// once more because JSON repeats it.
+function createTransfer(): (value: unknown) => unknown {
+    let remaining = transferLimits.maxValues;
+    const ancestors = new Set<object>();
+    const seen = new Map<object, { copy: unknown; values: number }>();
+
+    const copyItems = <T>(items: Iterable<T>, depth: number, copyItem: (item: T, depth: number) => unknown): unknown[] => {
+        const copies: unknown[] = [];
+        for (const item of items) {
+            if (remaining <= 0) {
+                copies.push('[Truncated]');
+                break;
+            }
+            copies.push(copyItem(item, depth));
+        }
+        return copies;
+    };
+
+    const visit = (value: unknown, depth: number): unknown => {
+        if (remaining <= 0) {
+            return '[Truncated]';
+        }
+        remaining--;
+        if (typeof value === 'bigint') {
+            return `${value}n`;
+        }
+        if (value === null || typeof value !== 'object') {
+            return value; // Functions, symbols and undefined are dropped by JSON.stringify
+        }
+        if (ancestors.has(value)) {
+            return '[Circular]';
+        }
+        const known = seen.get(value);
+        if (known) {
+            if (known.values > remaining) {
+                return '[Truncated]';
+            }
+            remaining -= known.values;
+            return known.copy;
+        }
+        if (value instanceof Date) {
+            const time = value.getTime();
+            return { [typeTag]: 'Date', value: Number.isNaN(time) ? 'Invalid Date' : time };
+        }
+        if (depth >= transferLimits.maxDepth) {
+            return '[MaxDepth]';
+        }
+
+        const before = remaining;
+        let copy: unknown;
+        ancestors.add(value);
+        try {
+            if (value instanceof Map) {
+                copy = { [typeTag]: 'Map', value: copyItems(value, depth + 1, ([key, item], itemDepth) => [visit(key, itemDepth), visit(item, itemDepth)]) };
+            } else if (value instanceof Set) {
+                copy = { [typeTag]: 'Set', value: copyItems(value, depth + 1, visit) };
+            } else if (Array.isArray(value)) {
+                copy = copyItems(value, depth + 1, visit);
+            } else if (typeof (value as any).toJSON === 'function') {
+                copy = visit((value as any).toJSON(), depth);
+            } else {
+                const object: Record<string, unknown> = {};
+                for (const key of Object.keys(value)) {
+                    if (remaining <= 0) {
+                        object['[Truncated]'] = true;
+                        break;
+                    }
+                    object[key] = visit((value as any)[key], depth + 1);
+                }
+                copy = object;
+            }
+        } finally {
+            ancestors.delete(value);
+        }
+        seen.set(value, { copy, values: before - remaining });
+        return copy;
+    };
+    return value => visit(value, 0);
+}
+
+/**
+ * Locals cross into the context as JSON, so the snippet only ever sees copies that belong to
+ * the sandbox realm (no host prototypes, functions or getters to climb out through).
+ * Date, Map and Set values are rebuilt with the context's own constructors; other objects arrive as
+ * plain data without their methods, functions are left out, cycles become "[Circular]" and the copy
+ * is bounded by `transferLimits`. A local that can't be read (e.g. a throwing getter) becomes "<unserializable>".
+ */
+function serializeLocals(locals: Record<string, any>, localNames: string[]): string {
+    const transfer = createTransfer();
+    const parts: string[] = [];
+    for (const name of localNames) {
+        let json: string | undefined;
+        try {
+            json = JSON.stringify(transfer(locals[name]));
+        } catch {
+            json = JSON.stringify("<unserializable>");
+        }
+        if (json !== undefined) {
+            parts.push(`${JSON.stringify(name)}:${json}`);
+        }
+    }
+    return `{${parts.join(',')}}`;
+}
+
+// Rebuilds the tagged values inside the context (JSON.parse revives innermost values first)
+const reviverSource = `(key, value) => {
+    if (value === null || typeof value !== 'object' || typeof value.${typeTag} !== 'string') { return value; }
+    switch (value.${typeTag}) {
+        case 'Date': return new Date(value.value);
+        case 'Map': return new Map(value.value);
+        case 'Set': return new Set(value.value);
+        default: return value;
+    }
+}`;
+
+/**
+ * Source of the script that runs a snippet. It only depends on the snippet and the local names,
+ * the values are read from the context's slot at run time.
+ */
+function buildSnippetSource(code: string, localNames: string[]): string {
+    const declarations = localNames
+        .map(name => `const ${name} = __dlLocals[${JSON.stringify(name)}];`)
+        .join('\n');
+    return `
+        "use strict";
+        (() => {
+            const __dlLocals = JSON.parse(__dlSlot.input, ${reviverSource});
+            ${declarations}
+            const __dlResult = (${code});
+            return typeof __dlResult === 'string' ? __dlResult : JSON.stringify(__dlResult);
+        })()
+    `;
+}
+
+function createSandboxContext(): vm.Context {
+    const context = vm.createContext(Object.create(null), {
+        name: 'dynamic-logger CustomLoggingCode',
+        codeGeneration: { strings: false, wasm: false }, // No eval / new Function inside the context
+        microtaskMode: 'afterEvaluate', // Promise jobs count against the timeout too
+    });
+    contextSetupScript.runInContext(context);
+    return context;
+}
+
+function capOutput(output: string, maxOutputBytes: number): string {
+    const size = Buffer.byteLength(output);
+    if (size <= maxOutputBytes) {
+        return output;
+    }
+    const truncated = Buffer.from(output).subarray(0, maxOutputBytes).toString();
+    return `${truncated}...<truncated ${size - maxOutputBytes} bytes>`;
+}
+
+/**
+ * Compiles a snippet once for a given set of local names. The result can be run any number of times.
+ */
+export function compileSnippet(code: string, localNames: string[]): vm.Script {
+    return new vm.Script(buildSnippetSource(code, localNames), { filename: 'CustomLoggingCode.js' });
+}
+
+/**
+ * A locked-down vm context that compiled snippets run in. Creating a context is the expensive part,
+ * so it is reused across runs and only replaced if a run left something behind that can't be removed.
+ */
+export class Sandbox {
+    private context: vm.Context | null = null;
+
+    constructor(private options: SandboxOptions) {}
+
+    /**
+     * Runs a compiled snippet and returns its serialized output.
+     * Throws if the snippet throws or exceeds the timeout.
+     */
+    public run(script: vm.Script, localNames: string[], locals: Record<string, any>): string {
+        const context = this.context ??= createSandboxContext();
+        context.__dlSlot.input = serializeLocals(locals, localNames);
+        try {
+            const output = script.runInContext(context, { timeout: this.options.timeoutMs });
+            // The script only ever returns a string or undefined, never an object from the sandbox realm
+            return typeof output === 'string' ? capOutput(output, this.options.maxOutputBytes) : "undefined";
+        } finally {
+            context.__dlSlot.input = '{}';
+            if (contextCleanupScript.runInContext(context) !== true) {
+                this.context = null;
+            }
+        }
+    }
+}
+
+/**
+ * Compiles and runs a snippet in one go, in a fresh context.
+ * Throws if the snippet fails to compile, throws, or times out.
+ */
+export function runInSandbox(code: string, locals: Record<string, any>, options: SandboxOptions): string {
+    const localNames = getLocalNames(locals);
+    return new Sandbox(options).run(compileSnippet(code, localNames), localNames, locals);
+}
@@ -1,23 +1,25 @@
 import express, { Request, Response } from 'express';
 import http from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
-import path from 'path';
-import { DynamicLogger, ConfigFetcher, LogFunction } from './dynamicLogger';
+import {
+  DynamicLogger, ConfigFetcher, LogFunction, WebSocketConfigSubscriber,
+  InMemoryConfigStore, LiveLogSink, createAdminRouter, createMetricsHandler,
+} from './dynamicLogger';
+
+// Configs live in a store that can be edited at runtime through the admin page (/admin/)
+const configStore = new InMemoryConfigStore({
+  WS: { VariablesToLog: [], SamplingRate: 1, PrefixMessage: "Testing: ", // Always logged
+        CustomLoggingCode: `(port > 2000) ? ["Running on desired port: ", port] 
+                            : ["Change your port: ", port]` }, // Pass a ternary expression
+  SYSTEM_EVENT: { VariablesToLog: ["port", "currentTime"], SamplingRate: 0.02, PrefixMessage: "System Event - ",
+        CustomLoggingCode : `(() => { if (port > 2000) { return "Time is good"; } 
+                                      else { "Time is bad"; } })()`}, // Or wrap the code in an IIFE
+  WS_ERROR: { VariablesToLog: ["error"], SamplingRate: 1, PrefixMessage: "WebSocket failure: " },
+});
 
-// Simulating fetcher through if-else statements
 const myConfigFetcher: ConfigFetcher = async (key) => {
   await new Promise(r => setTimeout(r, 100)); // to simulate latency
-  if (key === "WS") {
-    return { VariablesToLog: [], SamplingRate: 1, PrefixMessage: "Testing: ", // Always logged
-            CustomLoggingCode: `(port > 2000) ? ["Running on desired port: ", port] 
-                                : ["Change your port: ", port]` }; // Pass a ternary expression
-  }
-  if (key === "SYSTEM_EVENT") {
-    return { VariablesToLog: ["port", "currentTime"], SamplingRate: 0.02, PrefixMessage: "System Event - ",
-            CustomLoggingCode : `(() => { if (port > 2000) { return "Time is good"; } 
-                                          else { "Time is bad"; } })()`}; // Or wrap the code in an IIFE
-  }
-  return null;
+  return configStore.get(key);
 };
 
 // Simulating log function through console.log
@@ -25,8 +27,23 @@ const myLogFunction: LogFunction = (logString) => {
   console.log("APP_LOG:", logString);
 };
 
+// Optionally receive pushed config changes from a local config service,
+// otherwise edits made on the admin page are pushed by the store itself
+const configSubscriber = process.env.CONFIG_SERVICE_URL
+  ? new WebSocketConfigSubscriber({ url: process.env.CONFIG_SERVICE_URL, verbose: true })
+  : configStore;
+
+// Streams every record to the admin page
+const liveLogs = new LiveLogSink({ path: '/admin/live' });
+
 // Initialize the logger (typically once at application startup)
-const dLogger = DynamicLogger.DLInitializer(myConfigFetcher, myLogFunction, {verbose : true});
+// Background dispatch keeps config fetch latency out of the WebSocket time loop
+const dLogger = DynamicLogger.DLInitializer(myConfigFetcher, myLogFunction, {
+  verbose : true,
+  configSubscriber,
+  dispatch: { mode: 'background' },
+  sinks: [liveLogs],
+});
 // Or to get the instance later if already initialized:
 // const dLogger = DynamicLogger.getInstance();
 
@@ -43,8 +60,25 @@ app.get('/api/message', (req: Request, res: Response) => {
   res.json({ message: 'Hello from the API! 👋' });
 });
 
+// --- Admin API and Dashboard ---
+// No authentication in this example; protect it (e.g. with the `authorize` option) in real deployments
+app.use('/admin', createAdminRouter({ store: configStore, liveLogPath: liveLogs.path }));
+
+// --- Logger Metrics ---
+// Prometheus text format; the same numbers summarized as JSON at /stats
+app.get('/metrics', createMetricsHandler(dLogger.getMetricsRegistry()));
+app.get('/stats', (req: Request, res: Response) => {
+  res.json(dLogger.getStats());
+});
+
 // --- WebSocket Server ---
-const wss = new WebSocketServer({ server }); // Attach WebSocket server to the HTTP server
+// Upgrades are routed by hand, since the live log stream shares the HTTP server
+const wss = new WebSocketServer({ noServer: true });
+server.on('upgrade', (req, socket, head) => {
+  if (!liveLogs.handleUpgrade(req, socket, head)) {
+    wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+  }
+});
 
 wss.on('connection', async (ws: WebSocket) => {
   await dLogger.dynamicLog('WS' ,'Client connected to WebSocket');
@@ -77,24 +111,21 @@ wss.on('connection', async (ws: WebSocket) => {
 
   ws.on('error', (error: Error) => {
     console.error('WebSocket error:', error);
+    dLogger.error('WS_ERROR', error.message);
     clearInterval(timeInterval); // Clear interval on error as well
   });
 });
 
-// --- Serve Static HTML Client ---
-// This will serve files from the 'public' directory.
-// __dirname points to the current directory of the executing script.
-const publicPath = path.join(__dirname, 'public');
-app.use(express.static(publicPath));
-
-// Fallback to index.html for any other GET request not handled by API or static files
-// This is useful for single-page applications, though not strictly necessary here.
-app.get('*', (req, res) => {
-  if (!req.path.startsWith('/api/')) { // Don't redirect API calls
-    res.sendFile(path.join(publicPath, 'index.html'));
-  } else {
-    res.status(404).send('API endpoint not found');
-  }
+// --- Dashboard ---
+// The admin router serves the page (public/index.html) with its config and live log panels
+app.get('/', (req: Request, res: Response) => {
+  res.redirect('/admin/');
+});
+
+// Drain buffered log calls before exiting
+process.once('SIGINT', async () => {
+  await dLogger.shutdown();
+  process.exit(0);
 });
 
 // Start the HTTP server
@@ -102,6 +133,8 @@ server.listen(port, () => {
   console.log(`Server running on http://localhost:${port}`);
   console.log(`API endpoint available at http://localhost:${port}/api/message`);
   console.log(`WebSocket server is listening on port ${port}`);
+  console.log(`Config admin page available at http://localhost:${port}/admin/`);
+  console.log(`Logger metrics available at http://localhost:${port}/metrics (Prometheus) and /stats (JSON)`);
 });
 
 
@@ -0,0 +1,29 @@
+// sinks/consoleSink.ts
+import { resolveFormatter, Formatter, FormatterName } from '../formatters';
+import type { LogRecord } from '../logRecord';
+import type { LogSink } from './types';
+
+interface ConsoleSinkOptions {
+    name?: string;
+    formatter?: Formatter | FormatterName;
+    // 'auto' sends warn and error records to stderr, everything else to stdout
+    stream?: 'stdout' | 'stderr' | 'auto';
+}
+
+export class ConsoleSink implements LogSink {
+    public readonly name: string;
+    private formatter: Formatter;
+    private stream: 'stdout' | 'stderr' | 'auto';
+
+    constructor(options: ConsoleSinkOptions = {}) {
+        this.name = options.name ?? 'console';
+        this.formatter = resolveFormatter(options.formatter);
+        this.stream = options.stream ?? 'auto';
+    }
+
+    public write(record: LogRecord): void {
+        const useStderr = this.stream === 'stderr' ||
+            (this.stream === 'auto' && (record.level === 'warn' || record.level === 'error'));
+        (useStderr ? process.stderr : process.stdout).write(this.formatter(record) + '\n');
+    }
+}
@@ -0,0 +1,99 @@
+// sinks/fileSink.ts
+import fs from 'fs';
+import path from 'path';
+import { resolveFormatter, Formatter, FormatterName } from '../formatters';
+import type { LogRecord } from '../logRecord';
+import type { LogSink } from './types';
+
+interface FileSinkOptions {
+    path: string;
+    name?: string;
+    formatter?: Formatter | FormatterName; // Default 'json'
+    maxBytes?: number;         // Rotate once the current file would grow past this size
+    rotateIntervalMs?: number; // Rotate once the current file is older than this
+    maxFiles?: number;         // Rotated files to keep (app.log.1 ... app.log.N), default 5
+}
+
+/**
+ * Appends one formatted record per line to a file, rotating by size and/or age.
+ * Rotated files are shifted to `<path>.1`, `<path>.2`, ... and the oldest is deleted.
+ * Writes are synchronous so that rotation never interleaves with a pending write.
+ */
+export class FileSink implements LogSink {
+    public readonly name: string;
+    private formatter: Formatter;
+    private fd: number | null = null;
+    private currentSize = 0;
+    private openedAt = 0;
+    private readonly maxFiles: number;
+
+    constructor(private options: FileSinkOptions) {
+        this.name = options.name ?? `file:${options.path}`;
+        this.formatter = resolveFormatter(options.formatter ?? 'json');
+        this.maxFiles = options.maxFiles ?? 5;
+    }
+
+    public write(record: LogRecord): void {
+        const line = Buffer.from(this.formatter(record) + '\n');
+        if (this.fd === null) {
+            this.open();
+        }
+        if (this.shouldRotate(line.length)) {
+            this.rotate();
+        }
+        fs.writeSync(this.fd!, line);
+        this.currentSize += line.length;
+    }
+
+    public async flush(): Promise<void> {
+        if (this.fd !== null) {
+            fs.fsyncSync(this.fd);
+        }
+    }
+
+    public async close(): Promise<void> {
+        if (this.fd !== null) {
+            fs.closeSync(this.fd);
+            this.fd = null;
+        }
+    }
+
+    private open(): void {
+        fs.mkdirSync(path.dirname(this.options.path), { recursive: true });
+        this.fd = fs.openSync(this.options.path, 'a');
+        const stats = fs.fstatSync(this.fd);
+        this.currentSize = stats.size;
+        // An existing file keeps its age across restarts
+        this.openedAt = stats.size > 0 ? stats.birthtimeMs || stats.mtimeMs : Date.now();
+    }
+
+    private shouldRotate(incomingBytes: number): boolean {
+        const { maxBytes, rotateIntervalMs } = this.options;
+        if (maxBytes !== undefined && this.currentSize > 0 && this.currentSize + incomingBytes > maxBytes) {
+            return true;
+        }
+        return rotateIntervalMs !== undefined && Date.now() - this.openedAt >= rotateIntervalMs;
+    }
+
+    private rotate(): void {
+        fs.closeSync(this.fd!);
+        this.fd = null;
+
+        const base = this.options.path;
+        fs.rmSync(`${base}.${this.maxFiles}`, { force: true });
+        for (let index = this.maxFiles - 1; index >= 1; index--) {
+            if (fs.existsSync(`${base}.${index}`)) {
+                fs.renameSync(`${base}.${index}`, `${base}.${index + 1}`);
+            }
+        }
+        if (this.maxFiles > 0) {
+            fs.renameSync(base, `${base}.1`);
+        } else {
+            fs.rmSync(base, { force: true });
+        }
+
+        this.fd = fs.openSync(base, 'a');
+        this.currentSize = 0;
+        this.openedAt = Date.now();
+    }
+}
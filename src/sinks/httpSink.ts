@@ -0,0 +1,120 @@
+// sinks/httpSink.ts
+import { jsonLinesFormatter } from '../formatters';
+import type { LogRecord } from '../logRecord';
+import type { LogSink } from './types';
+
+interface HttpSinkOptions {
+    url: string;
+    name?: string;
+    headers?: Record<string, string>;
+    batchSize?: number;       // Records per request, default 100
+    flushIntervalMs?: number; // Maximum time a record waits in the buffer, default 1000
+    maxBufferSize?: number;   // Oldest records are dropped beyond this, default 10000
+    timeoutMs?: number;       // Per-request timeout, default 5000
+    onError?: (error: Error, droppedRecords: number) => void;
+}
+
+/**
+ * Buffers records and POSTs them as a JSON array to a collector.
+ * A batch is sent when it reaches `batchSize` or when `flushIntervalMs` elapses.
+ * Failed batches are reported through `onError` and dropped.
+ */
+export class HttpSink implements LogSink {
+    public readonly name: string;
+    private buffer: LogRecord[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private pending = new Set<Promise<void>>();
+    private readonly batchSize: number;
+    private readonly flushIntervalMs: number;
+    private readonly maxBufferSize: number;
+    private readonly timeoutMs: number;
+
+    constructor(private options: HttpSinkOptions) {
+        this.name = options.name ?? `http:${options.url}`;
+        this.batchSize = options.batchSize ?? 100;
+        this.flushIntervalMs = options.flushIntervalMs ?? 1000;
+        this.maxBufferSize = options.maxBufferSize ?? 10000;
+        this.timeoutMs = options.timeoutMs ?? 5000;
+    }
+
+    public write(record: LogRecord): void {
+        this.buffer.push(record);
+        if (this.buffer.length > this.maxBufferSize) {
+            const dropped = this.buffer.splice(0, this.buffer.length - this.maxBufferSize);
+            this.reportError(new Error(`HttpSink buffer full, dropped ${dropped.length} record(s).`), dropped.length);
+        }
+
+        if (this.buffer.length >= this.batchSize) {
+            this.sendBatch();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.sendBatch();
+            }, this.flushIntervalMs);
+            this.timer.unref();
+        }
+    }
+
+    public async flush(): Promise<void> {
+        while (this.buffer.length > 0) {
+            this.sendBatch();
+        }
+        await Promise.all(this.pending);
+    }
+
+    public async close(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        await this.flush();
+    }
+
+    private sendBatch(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        const batch = this.buffer.splice(0, this.batchSize);
+        if (batch.length === 0) {
+            return;
+        }
+
+        const request = this.post(batch)
+            .catch((error: Error) => this.reportError(error, batch.length))
+            .finally(() => this.pending.delete(request));
+        this.pending.add(request);
+
+        if (this.buffer.length > 0 && !this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.sendBatch();
+            }, this.flushIntervalMs);
+            this.timer.unref();
+        }
+    }
+
+    private async post(batch: LogRecord[]): Promise<void> {
+        const response = await fetch(this.options.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...this.options.headers },
+            body: `[${batch.map(record => jsonLinesFormatter(record)).join(',')}]`,
+            signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        if (!response.ok) {
+            throw new Error(`HttpSink: collector responded with ${response.status} ${response.statusText}`);
+        }
+    }
+
+    private reportError(error: Error, droppedRecords: number): void {
+        if (this.options.onError) {
+            try {
+                this.options.onError(error, droppedRecords);
+            } catch (e: any) {
+                console.error(`DynamicLogger: Error in onError handler of ${this.name}:`, e.message);
+            }
+        } else {
+            console.error(`DynamicLogger: ${this.name} failed, ${droppedRecords} record(s) dropped:`, error.message);
+        }
+    }
+}
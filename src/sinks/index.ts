@@ -0,0 +1,6 @@
+// sinks/index.ts
+export { ConsoleSink } from './consoleSink';
+export { FileSink } from './fileSink';
+export { HttpSink } from './httpSink';
+export { LiveLogSink } from './liveLogSink';
+export type { LogSink, SinkFilter, SinkRegistration } from './types';
@@ -0,0 +1,79 @@
+// sinks/liveLogSink.ts
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { jsonLinesFormatter } from '../formatters';
+import { matchesAnyKeyPattern } from '../keyPatterns';
+import type { LogRecord } from '../logRecord';
+import type { LogSink } from './types';
+
+interface LiveLogSinkOptions {
+    name?: string;
+    path?: string;        // URL path clients connect to, default '/admin/live'
+    maxClients?: number;  // Further connections are refused, default 20
+    // Checked before a client is accepted, e.g. for an auth header or cookie
+    authorize?: (request: IncomingMessage) => boolean | Promise<boolean>;
+}
+
+/**
+ * Streams every record it receives to connected WebSocket clients as JSON (one message per record).
+ * Clients can narrow the stream with `?keys=PAYMENT_*,CHECKOUT` (glob patterns).
+ * It doesn't listen by itself: route the HTTP server's 'upgrade' events through `handleUpgrade`.
+ */
+export class LiveLogSink implements LogSink {
+    public readonly name: string;
+    public readonly path: string;
+    private server = new WebSocketServer({ noServer: true });
+    private clients = new Map<WebSocket, string[] | undefined>(); // Key patterns per client
+    private readonly maxClients: number;
+
+    constructor(private options: LiveLogSinkOptions = {}) {
+        this.name = options.name ?? 'live';
+        this.path = options.path ?? '/admin/live';
+        this.maxClients = options.maxClients ?? 20;
+    }
+
+    /**
+     * Takes over the upgrade if the request is for this sink's path; returns false otherwise,
+     * so other WebSocket servers can handle it.
+     */
+    public handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): boolean {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        if (url.pathname !== this.path) {
+            return false;
+        }
+        Promise.resolve(this.options.authorize ? this.options.authorize(request) : true).then(allowed => {
+            if (!allowed || this.clients.size >= this.maxClients) {
+                socket.end(`HTTP/1.1 ${allowed ? '503 Service Unavailable' : '401 Unauthorized'}\r\nConnection: close\r\n\r\n`);
+                return;
+            }
+            this.server.handleUpgrade(request, socket, head, client => {
+                const keys = url.searchParams.get('keys');
+                this.clients.set(client, keys ? keys.split(',').map(key => key.trim()).filter(Boolean) : undefined);
+                client.on('close', () => this.clients.delete(client));
+                client.on('error', () => this.clients.delete(client));
+            });
+        }, () => socket.destroy());
+        return true;
+    }
+
+    public write(record: LogRecord): void {
+        if (this.clients.size === 0) {
+            return;
+        }
+        const message = jsonLinesFormatter(record);
+        for (const [client, keys] of this.clients) {
+            if (client.readyState === WebSocket.OPEN && (!keys || matchesAnyKeyPattern(record.key, keys, record.namespace))) {
+                client.send(message);
+            }
+        }
+    }
+
+    public async close(): Promise<void> {
+        for (const client of this.clients.keys()) {
+            client.close(1001, 'Logger shutting down');
+        }
+        this.clients.clear();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+}
@@ -0,0 +1,28 @@
+// sinks/types.ts
+import type { LogRecord } from '../logRecord';
+import type { LogLevel } from '../levels';
+
+/**
+ * A destination for log records. `write` may be sync or async; a rejected promise
+ * or a thrown error only affects this sink.
+ */
+export interface LogSink {
+    name: string;
+    write(record: LogRecord): void | Promise<void>;
+    flush?(): Promise<void>; // Deliver anything the sink buffers
+    close?(): Promise<void>; // Flush and release resources (file handles, timers)
+}
+
+/**
+ * Routing rules for a sink. Every rule that is set must match for a record to reach the sink.
+ */
+export interface SinkFilter {
+    keys?: string[];     // Glob patterns for the uniqueKey, e.g. 'PAYMENT_*'
+    minLevel?: LogLevel; // Lowest level delivered to the sink
+    tags?: string[];     // The record must carry at least one of these tags (from LoggerConfig.Tags)
+}
+
+export interface SinkRegistration {
+    sink: LogSink;
+    filter?: SinkFilter;
+}
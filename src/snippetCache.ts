@@ -0,0 +1,90 @@
+// snippetCache.ts
+import vm from 'vm';
+import { LruCache, LruCacheStats } from './lruCache';
+import { validateTSCode, ValidationResult } from './validators';
+import { compileSnippet } from './sandbox';
+import { transpileSnippet, SnippetTypeChecker, TranspileResult } from './snippetTypeScript';
+import type { TypeManifest } from './typeManifest';
+
+export interface SnippetCacheStats {
+    transpiled: LruCacheStats;
+    validations: LruCacheStats;
+    scripts: LruCacheStats;
+}
+
+/**
+ * Remembers transpiled snippets, validation results and compiled scripts for CustomLoggingCode,
+ * so a snippet is transpiled, validated and compiled once instead of on every log call.
+ * Entries are keyed by the snippet text and the local names, so an edited snippet simply misses the cache.
+ */
+export class SnippetCache {
+    private transpiled: LruCache<string, TranspileResult>;
+    private validations: LruCache<string, ValidationResult>;
+    private scripts: LruCache<string, vm.Script>;
+    private typeChecker = new SnippetTypeChecker();
+
+    constructor(maxEntries: number, private typeManifest: TypeManifest = {}) {
+        this.transpiled = new LruCache(maxEntries);
+        this.validations = new LruCache(maxEntries);
+        this.scripts = new LruCache(maxEntries);
+    }
+
+    /**
+     * Transpiles the snippet from TypeScript, validates the result and, if the type manifest knows
+     * `uniqueKey`, type-checks the snippet against the locals of every call site using that key.
+     * Validation resolves identifiers against the locals, so like `compile` it is keyed by them too.
+     */
+    public validate(code: string, localNames: string[], uniqueKey: string): ValidationResult {
+        const sites = Object.prototype.hasOwnProperty.call(this.typeManifest, uniqueKey) ? this.typeManifest[uniqueKey] : [];
+        const cacheKey = `${sites.length > 0 ? uniqueKey : ''}\n${localNames.join(',')}\n${code}`;
+        return this.validations.getOrCreate(cacheKey, () => {
+            const { js, violations } = this.transpile(code);
+            if (violations.length > 0) {
+                return { isValid: false, violations };
+            }
+            const result = validateTSCode(js, localNames);
+            if (!result.isValid) {
+                return result;
+            }
+            const typeViolations = sites.flatMap(localTypes => this.typeChecker.check(code, localNames, localTypes));
+            // Call sites with similar locals report the same error, keep it once
+            const seen = new Set<string>();
+            const uniqueViolations = typeViolations.filter(violation => {
+                const id = `${violation.location}\n${violation.message}`;
+                if (seen.has(id)) {
+                    return false;
+                }
+                seen.add(id);
+                return true;
+            });
+            return { isValid: uniqueViolations.length === 0, violations: uniqueViolations };
+        });
+    }
+
+    /**
+     * The compiled script depends on the declared locals too, so they are part of the key.
+     * `localNames` must be in the order returned by `getLocalNames`.
+     */
+    public compile(code: string, localNames: string[]): vm.Script {
+        const cacheKey = `${localNames.join(',')}\n${code}`;
+        return this.scripts.getOrCreate(cacheKey, () => compileSnippet(this.transpile(code).js, localNames));
+    }
+
+    public clear(): void {
+        this.transpiled.clear();
+        this.validations.clear();
+        this.scripts.clear();
+    }
+
+    public getStats(): SnippetCacheStats {
+        return {
+            transpiled: this.transpiled.getStats(),
+            validations: this.validations.getStats(),
+            scripts: this.scripts.getStats(),
+        };
+    }
+
+    private transpile(code: string): TranspileResult {
+        return this.transpiled.getOrCreate(code, () => transpileSnippet(code));
+    }
+}
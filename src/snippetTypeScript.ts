@@ -0,0 +1,103 @@
+// snippetTypeScript.ts
+import type * as TypeScript from 'typescript';
+import type { Violation } from './validators';
+import type { LocalTypes } from './typeManifest';
+
+// The compiler is only loaded once a CustomLoggingCode snippet shows up, not on every startup
+let tsModule: typeof TypeScript | null = null;
+function getTypeScript(): typeof TypeScript {
+    if (!tsModule) {
+        tsModule = require('typescript') as typeof TypeScript;
+    }
+    return tsModule;
+}
+
+export interface TranspileResult {
+    js: string;              // The snippet as a plain JavaScript expression
+    violations: Violation[]; // Syntax errors reported by the compiler
+}
+
+function toViolation(ts: typeof TypeScript, diagnostic: TypeScript.Diagnostic, prefix: string, lineOffset = 0): Violation {
+    const message = `${prefix}${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`;
+    if (!diagnostic.file || diagnostic.start === undefined) {
+        return { message, location: 'Unknown location', line: 0, column: 0 };
+    }
+    const position = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    const line = position.line + 1 - lineOffset;
+    const column = position.character + 1;
+    return { message, location: `Line ${line}, Column ${column}`, line, column };
+}
+
+/**
+ * Strips TypeScript syntax (annotations, `as` casts, non-null assertions, ...) from a snippet.
+ */
+export function transpileSnippet(code: string): TranspileResult {
+    const ts = getTypeScript();
+    const output = ts.transpileModule(code, {
+        compilerOptions: { target: ts.ScriptTarget.ES2022, removeComments: true },
+        reportDiagnostics: true,
+    });
+    const violations = (output.diagnostics ?? []).map(diagnostic =>
+        toViolation(ts, diagnostic, 'Syntax error in custom code: '));
+    // The snippet is emitted as an expression statement, but it gets wrapped as an expression again
+    const js = output.outputText.trim().replace(/;$/, '');
+    return { js, violations };
+}
+
+const snippetFileName = '__dlSnippet.ts';
+
+/**
+ * Type-checks snippets against the types of the locals they run with. The declarations of the locals
+ * precede the snippet in a virtual file, so diagnostics are mapped back to lines of the snippet.
+ * Lib files are parsed once and reused by every check.
+ */
+export class SnippetTypeChecker {
+    private libFiles = new Map<string, TypeScript.SourceFile | undefined>();
+    private oldProgram: TypeScript.Program | undefined;
+
+    /**
+     * @param localNames Names of the locals the snippet will see. Names without a type in
+     *   `localTypes` (e.g. values from the async context) are declared as `any`.
+     */
+    public check(code: string, localNames: string[], localTypes: LocalTypes): Violation[] {
+        const ts = getTypeScript();
+        const declarations = localNames.map(name => `declare const ${name}: ${localTypes[name] ?? 'any'};`);
+        const prelude = [...declarations, 'const __dlResult = ('];
+        const source = `${prelude.join('\n')}\n${code}\n);\n`;
+        const snippetStart = source.length - code.length - 4; // Offset of the snippet inside the virtual file
+        const snippetEnd = snippetStart + code.length;
+
+        const options: TypeScript.CompilerOptions = {
+            strict: true,
+            noEmit: true,
+            target: ts.ScriptTarget.ES2022,
+            lib: ['lib.es2022.d.ts'],
+            types: [],
+        };
+        const host = ts.createCompilerHost(options);
+        const getLibFile = host.getSourceFile.bind(host);
+        host.getSourceFile = (fileName, languageVersion) => {
+            if (fileName === snippetFileName) {
+                return ts.createSourceFile(fileName, source, languageVersion, true);
+            }
+            if (!this.libFiles.has(fileName)) {
+                this.libFiles.set(fileName, getLibFile(fileName, languageVersion));
+            }
+            return this.libFiles.get(fileName);
+        };
+
+        const program = ts.createProgram({ rootNames: [snippetFileName], options, host, oldProgram: this.oldProgram });
+        this.oldProgram = program;
+        const snippetFile = program.getSourceFile(snippetFileName);
+        const diagnostics = [
+            ...program.getSyntacticDiagnostics(snippetFile),
+            ...program.getSemanticDiagnostics(snippetFile),
+        ];
+
+        // Errors in the declarations (e.g. a type that only exists in the application) are not the snippet's fault;
+        // such locals end up with an error type, which behaves like `any`
+        return diagnostics
+            .filter(diagnostic => diagnostic.start !== undefined && diagnostic.start >= snippetStart && diagnostic.start <= snippetEnd)
+            .map(diagnostic => toViolation(ts, diagnostic, 'Type error in custom code: ', prelude.length));
+    }
+}
@@ -0,0 +1,601 @@
+// log-call-transformer.ts
+// The locals injection itself, shared by the ts-patch plugin (auto-log-vars-transformer.ts) and the bundler plugins.
+import * as ts from 'typescript';
+import fs from 'fs';
+import path from 'path';
+import type { LocalTypes, TypeManifest } from '../typeManifest';
+import type { LogPoint, LogPointManifest } from '../logPointManifest';
+import type { TransformerExtras } from 'ts-patch';
+
+// Define an interface for your plugin options for type safety
+export interface TransformerOptions {
+    verbose?: boolean;
+    loggerMethodName?: string; // Optional: Allows user to specify the log method name
+    levelMethodNames?: string[]; // Level-specific methods (debug/info/...)
+    loggerMethodNames?: string[]; // Optional: Replaces loggerMethodName + levelMethodNames as the list of rewritten methods
+    loggerClassNames?: string[]; // Receiver classes whose methods are rewritten (subclasses included), default ['DynamicLogger']
+    loggerFunctionNames?: string[]; // Standalone functions that are rewritten, default ['dynamicLog']
+    loggerModules?: string[]; // Standalone functions must be declared in a file whose path contains one of these
+    typeManifestPath?: string; // Optional: Where to write the types of the injected locals per uniqueKey
+    manifestPath?: string; // Optional: Where to write the manifest of all log points
+    localsCapture?: 'eager' | 'lazy'; // 'lazy' passes `() => ({ ... })` so locals are only read for sampled calls
+    injectCallSite?: boolean; // Pass `{ file, line, column, functionName }` as a fourth argument
+    duplicateKeys?: 'error' | 'allow'; // Whether two call sites may use the same literal key, default 'error'
+}
+
+// Follows imports (`import { dynamicLog as log }`) and constants that only rename another
+// symbol (`const log = dynamicLog`) to the symbol that is actually called.
+function resolveAliasedSymbol(symbol: ts.Symbol, typeChecker: ts.TypeChecker): ts.Symbol {
+    let current = symbol;
+    for (let depth = 0; depth < 10; depth++) {
+        if (current.flags & ts.SymbolFlags.Alias) {
+            current = typeChecker.getAliasedSymbol(current);
+            continue;
+        }
+        const declaration = current.valueDeclaration;
+        if (declaration && ts.isVariableDeclaration(declaration) && declaration.initializer &&
+            ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const &&
+            (ts.isIdentifier(declaration.initializer) || ts.isPropertyAccessExpression(declaration.initializer))) {
+            const initializerName = ts.isIdentifier(declaration.initializer) ? declaration.initializer : declaration.initializer.name;
+            const next = typeChecker.getSymbolAtLocation(initializerName);
+            if (next) {
+                current = next;
+                continue;
+            }
+        }
+        break;
+    }
+    return current;
+}
+
+function isLoggerClassType(type: ts.Type, typeChecker: ts.TypeChecker, classNames: string[], depth = 0): boolean {
+    const symbol = type.getSymbol();
+    if (symbol && classNames.includes(symbol.getName())) {
+        return true;
+    }
+    if (depth < 10 && type.isClassOrInterface()) {
+        return (typeChecker.getBaseTypes(type) ?? []).some(base => isLoggerClassType(base, typeChecker, classNames, depth + 1));
+    }
+    return false;
+}
+
+// Log method names are shared with console.* and most other loggers, so a call is only rewritten if the type
+// checker resolves it to a method of a logger class, or to one of the standalone functions of the logger module.
+function isLoggerCall(node: ts.CallExpression, typeChecker: ts.TypeChecker, options: TransformerOptions): boolean {
+    const callee = node.expression;
+    const nameNode = ts.isPropertyAccessExpression(callee) ? callee.name : ts.isIdentifier(callee) ? callee : undefined;
+    const symbol = nameNode && typeChecker.getSymbolAtLocation(nameNode);
+    if (!symbol) {
+        return false;
+    }
+    const target = resolveAliasedSymbol(symbol, typeChecker);
+
+    if (target.flags & ts.SymbolFlags.Function) {
+        const declarationFile = target.valueDeclaration?.getSourceFile().fileName.split(path.sep).join('/') ?? '';
+        return options.loggerFunctionNames!.includes(target.getName()) &&
+            options.loggerModules!.some(module => declarationFile.includes(module));
+    }
+
+    if (target.flags & ts.SymbolFlags.Method && ts.isPropertyAccessExpression(callee) &&
+        options.loggerMethodNames!.includes(target.getName())) {
+        const receiverType = typeChecker.getNonNullableType(typeChecker.getTypeAtLocation(callee.expression));
+        return isLoggerClassType(receiverType, typeChecker, options.loggerClassNames!);
+    }
+    return false;
+}
+
+// The namespace of the logger a method is called on, if the source tells it: a const holding
+// `DynamicLogger.create(fetcher, logFunction, { namespace: 'billing' })`, or a child of such a logger.
+// The logger prefixes its keys with the namespace at runtime, so keys only clash within one namespace.
+function getLoggerNamespace(callee: ts.Expression, typeChecker: ts.TypeChecker, options: TransformerOptions): string | undefined {
+    if (!ts.isPropertyAccessExpression(callee)) {
+        return undefined;
+    }
+    let receiver: ts.Expression = callee.expression;
+    for (let depth = 0; depth < 10; depth++) {
+        while (ts.isParenthesizedExpression(receiver)) {
+            receiver = receiver.expression;
+        }
+        if (ts.isCallExpression(receiver) && ts.isPropertyAccessExpression(receiver.expression)) {
+            const method = receiver.expression;
+            if (method.name.text === 'child') {
+                receiver = method.expression;
+                continue;
+            }
+            const optionsArg = receiver.arguments[2];
+            if (method.name.text !== 'create' || !ts.isIdentifier(method.expression) ||
+                !options.loggerClassNames!.includes(method.expression.text) || !optionsArg || !ts.isObjectLiteralExpression(optionsArg)) {
+                return undefined;
+            }
+            const property = optionsArg.properties.find(property =>
+                ts.isPropertyAssignment(property) && ts.isIdentifier(property.name) && property.name.text === 'namespace');
+            return property && ts.isPropertyAssignment(property) && ts.isStringLiteralLike(property.initializer)
+                ? property.initializer.text || undefined
+                : undefined;
+        }
+        const nameNode = ts.isIdentifier(receiver) ? receiver : ts.isPropertyAccessExpression(receiver) ? receiver.name : undefined;
+        const symbol = nameNode && typeChecker.getSymbolAtLocation(nameNode);
+        const declaration = symbol && resolveAliasedSymbol(symbol, typeChecker).valueDeclaration;
+        if (!declaration || !ts.isVariableDeclaration(declaration) || !declaration.initializer ||
+            !(ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const)) {
+            return undefined;
+        }
+        receiver = declaration.initializer;
+    }
+    return undefined;
+}
+
+// Bindings that can be captured: the values the code declares (including parameters, catch and loop bindings,
+// destructured names). Imports, function and class declarations are code rather than state, and copying them into
+// the sandbox on every call is what makes a capture expensive.
+const capturedSymbolFlags = ts.SymbolFlags.Variable;
+
+// Destructured names belong to the declaration (or parameter) that holds the whole pattern
+function getRootDeclaration(node: ts.Node): ts.Node {
+    let current = node;
+    while (ts.isBindingElement(current) || ts.isObjectBindingPattern(current) || ts.isArrayBindingPattern(current)) {
+        current = current.parent;
+    }
+    return current;
+}
+
+function containsNode(outer: ts.Node, inner: ts.Node): boolean {
+    return outer.getStart() <= inner.getStart() && inner.getEnd() <= outer.getEnd();
+}
+
+// Identifiers of a file grouped by name, collected once per file for looking up references
+const identifiersByFile = new WeakMap<ts.SourceFile, Map<string, ts.Identifier[]>>();
+
+function getIdentifiersNamed(name: string, sourceFile: ts.SourceFile): ts.Identifier[] {
+    let byName = identifiersByFile.get(sourceFile);
+    if (!byName) {
+        const collected = new Map<string, ts.Identifier[]>();
+        const visit = (node: ts.Node): void => {
+            if (ts.isIdentifier(node)) {
+                const list = collected.get(node.text) ?? [];
+                list.push(node);
+                collected.set(node.text, list);
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+        byName = collected;
+        identifiersByFile.set(sourceFile, byName);
+    }
+    return byName.get(name) ?? [];
+}
+
+// A hoisted function can run before a `let`/`const` declared ahead of it in the source is initialized,
+// if it is referenced (called, or passed along) before that declaration. Returns the first such function.
+function findEarlyCalledHoistedFunction(
+    bindingRoot: ts.Node,
+    callNode: ts.Node,
+    typeChecker: ts.TypeChecker
+): ts.FunctionDeclaration | undefined {
+    for (let current = callNode.parent; current && !containsNode(current, bindingRoot); current = current.parent) {
+        if (!ts.isFunctionDeclaration(current) || !current.name) {
+            continue;
+        }
+        const functionSymbol = typeChecker.getSymbolAtLocation(current.name);
+        const referencedEarly = getIdentifiersNamed(current.name.text, current.getSourceFile()).some(id =>
+            id !== current.name &&
+            id.getStart() < bindingRoot.getEnd() &&
+            typeChecker.getSymbolAtLocation(id) === functionSymbol);
+        if (referencedEarly) {
+            return current;
+        }
+    }
+    return undefined;
+}
+
+function getEnclosingCaseClause(node: ts.Node): ts.CaseOrDefaultClause | undefined {
+    const statement = ts.isVariableDeclaration(node) ? node.parent.parent : node;
+    return statement.parent && ts.isCaseOrDefaultClause(statement.parent) ? statement.parent : undefined;
+}
+
+/**
+ * Decides whether a binding is initialized whenever the call runs. Returns `true` to capture it, `false` to leave it
+ * out silently (it is declared after the call), or the reason why it is in, or may be in, its temporal dead zone.
+ * - `var`, parameters and catch bindings have no dead zone, but are only captured once declared.
+ * - `let` and `const` must be declared before the call, outside of the call's own initializer, in the
+ *   same case clause if they are declared in one, and not only reached through a hoisted function that may run early.
+ */
+function checkBindingAtCall(declaration: ts.Declaration, callNode: ts.Node, typeChecker: ts.TypeChecker): boolean | string {
+    const root = getRootDeclaration(declaration);
+    const isBlockScoped = !!(ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.BlockScoped);
+    if (containsNode(root, callNode)) {
+        return isBlockScoped ? 'its initializer contains the call' : false;
+    }
+    if (root.getEnd() > callNode.getStart()) {
+        return false;
+    }
+    if (!isBlockScoped) {
+        return true;
+    }
+
+    const caseClause = getEnclosingCaseClause(root);
+    if (caseClause && !containsNode(caseClause, callNode)) {
+        return 'it is declared in a different case clause';
+    }
+    const hoistedFunction = findEarlyCalledHoistedFunction(root, callNode, typeChecker);
+    if (hoistedFunction) {
+        return `the hoisted function '${hoistedFunction.name!.text}' can run before its declaration`;
+    }
+    return true;
+}
+
+interface SkippedBinding {
+    name: string;
+    reason: string;
+}
+
+// Every local binding visible at the call, resolved by the type checker, so an inner binding always wins over an
+// outer one with the same name. Globals and ambient declarations are left out, as are names that are not
+// initialized yet when the call runs; the ones that could be mistaken for captured are returned as `skipped`.
+function getLocalsInScope(
+    callNode: ts.Node,
+    typeChecker: ts.TypeChecker,
+    options: TransformerOptions
+): { identifiers: ts.Identifier[]; skipped: SkippedBinding[] } {
+    const sourceFile = callNode.getSourceFile();
+    const identifiers: ts.Identifier[] = [];
+    const skipped: SkippedBinding[] = [];
+
+    for (const symbol of typeChecker.getSymbolsInScope(callNode, capturedSymbolFlags)) {
+        const declaration = symbol.valueDeclaration ?? symbol.declarations?.[0];
+        if (!declaration || declaration.getSourceFile() !== sourceFile || ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Ambient) {
+            continue;
+        }
+
+        const name = (declaration as ts.NamedDeclaration).name;
+        if (!name || !ts.isIdentifier(name)) {
+            continue;
+        }
+        const check = checkBindingAtCall(declaration, callNode, typeChecker);
+        if (check === true) {
+            identifiers.push(name);
+        } else if (typeof check === 'string') {
+            skipped.push({ name: name.text, reason: check });
+        }
+    }
+
+    if (options.verbose) {
+        console.log(`[TRANSFORMER DEBUG - getLocalsInScope] For target node at ${callNode.getStart()}:`);
+        identifiers.forEach(id => console.log(`  - Found identifier: ${id.text} (pos: ${id.getStart()}-${id.getEnd()})`));
+        skipped.forEach(binding => console.log(`  - Skipped identifier: ${binding.name} (${binding.reason})`));
+    }
+
+    return { identifiers, skipped };
+}
+
+
+// Paths in warnings, manifests, call sites and generated keys don't depend on where the project is checked out
+function getRelativeFileName(sourceFile: ts.SourceFile, program: ts.Program): string {
+    return path.relative(program.getCurrentDirectory(), sourceFile.fileName).split(path.sep).join('/');
+}
+
+// Skipping a binding changes what gets logged, so it is reported even without `verbose`. Printed like a
+// compiler message, but not added as a diagnostic: tsc fails the build on any diagnostic, warnings included.
+function warnAboutSkippedBindings(callNode: ts.CallExpression, skipped: SkippedBinding[], program: ts.Program): void {
+    const sourceFile = callNode.getSourceFile();
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(callNode.getStart());
+    const fileName = getRelativeFileName(sourceFile, program);
+    const names = skipped.map(binding => `'${binding.name}' (${binding.reason})`).join(', ');
+    console.warn(`${fileName}(${line + 1},${character + 1}): warning: [auto-log-vars] Not capturing possibly uninitialized bindings: ${names}.`);
+}
+
+// Records the log points of every source file, and rewrites the manifests whenever a file was transformed,
+// so a file that is compiled again (watch mode) replaces its old entries.
+class ManifestWriter {
+    private logPointsByFile = new Map<string, LogPoint[]>();
+
+    constructor(private manifestPath: string | undefined, private typeManifestPath: string | undefined) {}
+
+    public setFileLogPoints(fileName: string, logPoints: LogPoint[]): void {
+        if (logPoints.length === 0 && !this.logPointsByFile.has(fileName)) {
+            return;
+        }
+        this.logPointsByFile.set(fileName, logPoints);
+        const allLogPoints = [...this.logPointsByFile.keys()].sort().flatMap(file => this.logPointsByFile.get(file)!);
+
+        if (this.manifestPath) {
+            const manifest: LogPointManifest = { version: 1, logPoints: allLogPoints };
+            this.writeJson(this.manifestPath, manifest);
+        }
+        if (this.typeManifestPath) {
+            const typeManifest: TypeManifest = {};
+            allLogPoints.forEach(point => (typeManifest[point.key] ??= []).push(point.variables));
+            this.writeJson(this.typeManifestPath, typeManifest);
+        }
+    }
+
+    private writeJson(filePath: string, value: unknown): void {
+        fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(value, null, 2));
+    }
+}
+
+// Name of the function a call is in, as a human would look for it in the source
+function getEnclosingFunctionName(node: ts.Node): string {
+    let current: ts.Node | undefined = node.parent;
+    while (current && !ts.isSourceFile(current)) {
+        if (ts.isFunctionLike(current)) {
+            const name = current.name && !ts.isComputedPropertyName(current.name) ? current.name.getText() : undefined;
+            const parent = current.parent;
+            if (ts.isConstructorDeclaration(current)) {
+                return parent && ts.isClassLike(parent) && parent.name ? `${parent.name.text}.constructor` : 'constructor';
+            }
+            if (name && (ts.isMethodDeclaration(current) || ts.isAccessor(current)) && ts.isClassLike(parent) && parent.name) {
+                return `${parent.name.text}.${name}`;
+            }
+            if (name) {
+                return name;
+            }
+            // Anonymous functions assigned to a variable or property are known by that name
+            if (parent && (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) &&
+                ts.isIdentifier(parent.name)) {
+                return parent.name.text;
+            }
+            return '<anonymous>';
+        }
+        current = current.parent;
+    }
+    return '<module>';
+}
+
+function getLocalTypes(identifiers: ts.Identifier[], callNode: ts.Node, typeChecker: ts.TypeChecker): LocalTypes {
+    const localTypes: LocalTypes = {};
+    identifiers.forEach(id => {
+        const type = typeChecker.getTypeAtLocation(id);
+        localTypes[id.text] = typeChecker.typeToString(type, callNode, ts.TypeFormatFlags.NoTruncation);
+    });
+    return localTypes;
+}
+
+// Code of the diagnostic for duplicate keys, outside of the range used by TypeScript itself
+const duplicateKeyDiagnosticCode = 90001;
+
+interface KeyUse {
+    sourceFile: ts.SourceFile;
+    node: ts.Node;
+}
+
+// Remembers which call site uses which literal key, across all files of the program. Like the manifests,
+// a file that is transformed again replaces its own entries first.
+class KeyRegistry {
+    private usesByKey = new Map<string, KeyUse>();
+    private keysByFile = new Map<string, string[]>();
+
+    public startFile(fileName: string): void {
+        for (const key of this.keysByFile.get(fileName) ?? []) {
+            this.usesByKey.delete(key);
+        }
+        this.keysByFile.set(fileName, []);
+    }
+
+    // Returns the earlier use if the key is already taken
+    public register(key: string, use: KeyUse): KeyUse | undefined {
+        const existing = this.usesByKey.get(key);
+        if (existing) {
+            return existing;
+        }
+        this.usesByKey.set(key, use);
+        this.keysByFile.get(use.sourceFile.fileName)?.push(key);
+        return undefined;
+    }
+}
+
+function reportDuplicateKey(
+    key: string,
+    use: KeyUse,
+    firstUse: KeyUse,
+    program: ts.Program,
+    extras: Pick<TransformerExtras, 'addDiagnostic'> | undefined
+): void {
+    const first = firstUse.sourceFile.getLineAndCharacterOfPosition(firstUse.node.getStart());
+    const firstLocation = `${getRelativeFileName(firstUse.sourceFile, program)}:${first.line + 1}:${first.character + 1}`;
+    const messageText = `[auto-log-vars] The key '${key}' is already used at ${firstLocation}. Call sites that share a key share its config; use a different key, or omit it to have one generated.`;
+    if (!extras?.addDiagnostic) {
+        const { line, character } = use.sourceFile.getLineAndCharacterOfPosition(use.node.getStart());
+        console.error(`${getRelativeFileName(use.sourceFile, program)}(${line + 1},${character + 1}): error: ${messageText}`);
+        return;
+    }
+    extras.addDiagnostic({
+        category: ts.DiagnosticCategory.Error,
+        code: duplicateKeyDiagnosticCode,
+        file: use.sourceFile,
+        start: use.node.getStart(),
+        length: use.node.getWidth(),
+        messageText,
+        relatedInformation: [{
+            category: ts.DiagnosticCategory.Message,
+            code: duplicateKeyDiagnosticCode,
+            file: firstUse.sourceFile,
+            start: firstUse.node.getStart(),
+            length: firstUse.node.getWidth(),
+            messageText: `The key '${key}' is first used here.`,
+        }],
+    });
+}
+
+export function resolveTransformerOptions(pluginOptions: Partial<TransformerOptions> = {}): TransformerOptions {
+    const options: TransformerOptions = {
+        verbose: false,
+        loggerMethodName: 'dynamicLog', // Default to 'dynamicLog' as per your example
+        levelMethodNames: ['debug', 'info', 'warn', 'error'],
+        localsCapture: 'eager',
+        injectCallSite: false,
+        duplicateKeys: 'error',
+        loggerClassNames: ['DynamicLogger'],
+        loggerFunctionNames: ['dynamicLog'],
+        loggerModules: ['dynamic-logger', 'dynamicLogger'],
+        ...pluginOptions
+    };
+    options.loggerMethodNames ??= [options.loggerMethodName!, ...(options.levelMethodNames ?? [])];
+    return options;
+}
+
+/**
+ * What has to outlive a single program: the keys seen so far (for duplicate detection) and the manifests.
+ * A bundler creates a new program whenever a file changes, but keeps one state for the whole build.
+ */
+export interface TransformerState {
+    keyRegistry: KeyRegistry;
+    manifestWriter: ManifestWriter | null;
+}
+
+export function createTransformerState(options: TransformerOptions): TransformerState {
+    return {
+        keyRegistry: new KeyRegistry(),
+        manifestWriter: options.manifestPath || options.typeManifestPath
+            ? new ManifestWriter(options.manifestPath, options.typeManifestPath)
+            : null,
+    };
+}
+
+/**
+ * Creates the transformer that injects locals into the logger calls of each source file.
+ * `extras` is passed by ts-patch; without it, duplicate keys are printed instead of failing the build.
+ */
+export function createLogCallTransformer(
+    program: ts.Program,
+    options: TransformerOptions,
+    extras?: Pick<TransformerExtras, 'addDiagnostic'>,
+    state: TransformerState = createTransformerState(options)
+): ts.TransformerFactory<ts.SourceFile> {
+    const typeChecker = program.getTypeChecker();
+    const { keyRegistry, manifestWriter } = state;
+
+    return (context: ts.TransformationContext) => {
+        const factory = context.factory;
+        let logPoints: LogPoint[] = [];
+        let generatedKeyCounts = new Map<string, number>();
+
+        const visitor = (node: ts.Node): ts.Node => {
+            if (ts.isCallExpression(node)) {
+                // Calls that already pass locals (e.g. wrappers forwarding their arguments) are left as they are
+                if (isLoggerCall(node, typeChecker, options) && node.arguments.length < 3) {
+                    const originalArguments = node.arguments;
+                    const metadataArg = originalArguments[1];   // Second argument is metadata (optional in source)
+                    const sourceFile = node.getSourceFile();
+                    const fileName = getRelativeFileName(sourceFile, program);
+                    const functionName = getEnclosingFunctionName(node);
+
+                    // Without a key (or with `undefined`), the key is generated from the file, the function and the
+                    // position among the function's keyless calls, so it survives edits elsewhere in the file
+                    let uniqueKeyArg: ts.Expression = originalArguments[0];
+                    if (!uniqueKeyArg || (ts.isIdentifier(uniqueKeyArg) && uniqueKeyArg.text === 'undefined')) {
+                        const scope = `${fileName}:${functionName}`;
+                        const ordinal = (generatedKeyCounts.get(scope) ?? 0) + 1;
+                        generatedKeyCounts.set(scope, ordinal);
+                        uniqueKeyArg = factory.createStringLiteral(`${scope}:${ordinal}`);
+                        if (options.verbose) console.log(`  - Generated uniqueKey '${scope}:${ordinal}'.`);
+                    } else if (ts.isStringLiteralLike(uniqueKeyArg) && options.duplicateKeys !== 'allow') {
+                        const use = { sourceFile, node: uniqueKeyArg };
+                        const namespace = getLoggerNamespace(node.expression, typeChecker, options);
+                        const firstUse = keyRegistry.register(namespace ? `${namespace}:${uniqueKeyArg.text}` : uniqueKeyArg.text, use);
+                        if (firstUse) {
+                            reportDuplicateKey(uniqueKeyArg.text, use, firstUse, program, extras);
+                        }
+                    }
+
+                    const { identifiers: scopedVars, skipped } = getLocalsInScope(node, typeChecker, options);
+                    if (skipped.length > 0) {
+                        warnAboutSkippedBindings(node, skipped, program);
+                    }
+
+                    // Only literal keys can be matched against configs
+                    const position = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+                    if (manifestWriter && ts.isStringLiteralLike(uniqueKeyArg)) {
+                        logPoints.push({
+                            key: uniqueKeyArg.text,
+                            file: fileName,
+                            line: position.line + 1,
+                            functionName,
+                            variables: getLocalTypes(scopedVars, node, typeChecker),
+                        });
+                    }
+
+                    if (options.verbose) {
+                        console.log(`[TRANSFORMER DEBUG] Processing dynamicLog call: ${node.getText()}`);
+                        console.log(`  - Unique Key Arg: ${ts.isStringLiteralLike(uniqueKeyArg) ? uniqueKeyArg.text : uniqueKeyArg.getText()}`);
+                        console.log(`  - Metadata Arg (present?): ${!!metadataArg}`);
+                        console.log(`  - Scoped Vars (${scopedVars.length}):`, scopedVars.map(sv => sv.text));
+                    }
+
+                    // Logger calls nested in the arguments (e.g. in a callback) are rewritten as well
+                    const visitArgument = (argument: ts.Expression) => ts.visitNode(argument, visitor, ts.isExpression) as ts.Expression;
+
+                    // Construct the new arguments list
+                    const newArguments: ts.Expression[] = [];
+                    newArguments.push(visitArgument(uniqueKeyArg)); // Always include uniqueKey as first arg
+
+                    // Add metadata argument. If user didn't provide, inject 'undefined'
+                    if (metadataArg) {
+                        newArguments.push(visitArgument(metadataArg));
+                    } else {
+                        // User called dLogger.dynamicLog('KEY') (only one argument)
+                        // We need to inject 'undefined' for the metadata parameter explicitly
+                        // so that our allAvailableLocals goes into the 3rd slot.
+                        newArguments.push(factory.createIdentifier('undefined'));
+                        if (options.verbose) console.log("  - Injected 'undefined' for optional metadata argument.");
+                    }
+
+                    // Add the allAvailableLocals object as the third argument
+                    if (scopedVars.length > 0) {
+                        const objectLiteralProperties = scopedVars.map(idNode =>
+                            factory.createShorthandPropertyAssignment(idNode)
+                        );
+                        const localsObject = factory.createObjectLiteralExpression(objectLiteralProperties, true);
+                        if (options.localsCapture === 'lazy') {
+                            newArguments.push(factory.createArrowFunction(
+                                undefined,
+                                undefined,
+                                [],
+                                undefined,
+                                factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                                factory.createParenthesizedExpression(localsObject)
+                            ));
+                        } else {
+                            newArguments.push(localsObject);
+                        }
+                        if (options.verbose) {
+                            console.log(`  - Injecting localsObject with keys: ${objectLiteralProperties.map(p => (p.name as ts.Identifier).text).join(', ')}`);
+                        }
+                    } else {
+                        // If no scoped vars, inject 'undefined' for the third argument
+                        newArguments.push(factory.createIdentifier('undefined'));
+                        if (options.verbose) console.log("  - No scoped vars, injected 'undefined' for locals object.");
+                    }
+
+                    // Add the call site as the fourth argument
+                    if (options.injectCallSite) {
+                        newArguments.push(factory.createObjectLiteralExpression([
+                            factory.createPropertyAssignment('file', factory.createStringLiteral(fileName)),
+                            factory.createPropertyAssignment('line', factory.createNumericLiteral(position.line + 1)),
+                            factory.createPropertyAssignment('column', factory.createNumericLiteral(position.character + 1)),
+                            factory.createPropertyAssignment('functionName', factory.createStringLiteral(functionName)),
+                        ], false));
+                    }
+
+                    // Update the CallExpression with the new arguments
+                    return factory.updateCallExpression(
+                        node,
+                        ts.visitNode(node.expression, visitor, ts.isLeftHandSideExpression) as ts.LeftHandSideExpression,
+                        node.typeArguments,
+                        newArguments
+                    );
+                }
+            }
+            return ts.visitEachChild(node, visitor, context);
+        };
+        return (sourceFile: ts.SourceFile) => {
+            logPoints = [];
+            generatedKeyCounts = new Map();
+            keyRegistry.startFile(sourceFile.fileName);
+            const result = ts.visitNode(sourceFile, visitor) as ts.SourceFile;
+            manifestWriter?.setFileLogPoints(sourceFile.fileName, logPoints);
+            return result;
+        };
+    };
+}
\ No newline at end of file
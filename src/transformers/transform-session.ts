@@ -0,0 +1,179 @@
+// transform-session.ts
+// Runs the locals injection on single files for tools that compile file by file (bundlers, test runners).
+// The type checker needs the whole project, so a session keeps a language service over the tsconfig's files
+// and emits one file at a time with the transformer applied.
+import * as ts from 'typescript';
+import fs from 'fs';
+import path from 'path';
+import {
+    createLogCallTransformer,
+    createTransformerState,
+    resolveTransformerOptions,
+    TransformerOptions,
+    TransformerState,
+} from './log-call-transformer';
+
+export interface TransformSessionOptions {
+    tsconfig?: string;  // Path of the tsconfig.json, by default the nearest one above `cwd`
+    cwd?: string;       // Default process.cwd()
+    include?: RegExp;   // Files that are transformed, default .ts/.tsx/.mts/.cts
+    exclude?: RegExp;   // Default node_modules and declaration files
+    // Merged over the options of the auto-log-vars-transformer entry in the tsconfig plugins, if there is one
+    transformerOptions?: Partial<TransformerOptions>;
+}
+
+export interface TransformResult {
+    code: string;
+    map?: string;      // Source map of `code`, as JSON
+    errors: string[];  // Formatted diagnostics that should fail the build (e.g. duplicate keys)
+}
+
+const defaultInclude = /\.[cm]?tsx?$/;
+const defaultExclude = /node_modules|\.d\.[cm]?ts$/;
+const sourceMapComment = /\n\/\/# sourceMappingURL=.*$/;
+
+export class TransformSession {
+    private readonly cwd: string;
+    private readonly include: RegExp;
+    private readonly exclude: RegExp;
+    private readonly compilerOptions: ts.CompilerOptions;
+    private readonly transformerOptions: TransformerOptions;
+    private readonly state: TransformerState;
+    private readonly service: ts.LanguageService;
+    private readonly rootFileNames: Set<string>;
+    // Contents handed over by the bundler (which may differ from the file on disk), with a version per change
+    private readonly overrides = new Map<string, { text: string; version: number }>();
+    private readonly callNames: string[];
+
+    constructor(options: TransformSessionOptions = {}) {
+        this.cwd = options.cwd ?? process.cwd();
+        this.include = options.include ?? defaultInclude;
+        this.exclude = options.exclude ?? defaultExclude;
+
+        const parsed = this.readTsconfig(options.tsconfig);
+        this.rootFileNames = new Set(parsed.fileNames.map(fileName => path.resolve(fileName)));
+        this.compilerOptions = {
+            ...parsed.options,
+            // Keep `import`/`export` so the bundler can still tree-shake, and emit nothing but JavaScript
+            module: ts.ModuleKind.ESNext,
+            moduleResolution: parsed.options.moduleResolution ?? ts.ModuleResolutionKind.Node10,
+            noEmit: false,
+            noEmitOnError: false,
+            declaration: false,
+            declarationMap: false,
+            emitDeclarationOnly: false,
+            composite: false,
+            incremental: false,
+            sourceMap: true,
+            inlineSourceMap: false,
+            inlineSources: true,
+            outDir: undefined,
+            outFile: undefined,
+            // With ts-patch installed, emit would run the tsconfig's plugins first: the calls would already be
+            // rewritten when the session's transformer sees them, and its duplicate key diagnostics would be lost
+            plugins: undefined,
+        };
+
+        const pluginEntry = (parsed.options.plugins as any[] | undefined)
+            ?.find(plugin => typeof plugin?.transform === 'string' && plugin.transform.includes('auto-log-vars-transformer'));
+        this.transformerOptions = resolveTransformerOptions({ ...pluginEntry, ...options.transformerOptions });
+        this.state = createTransformerState(this.transformerOptions);
+        this.callNames = [...this.transformerOptions.loggerMethodNames!, ...this.transformerOptions.loggerFunctionNames!];
+
+        this.service = ts.createLanguageService(this.createHost(), ts.createDocumentRegistry());
+    }
+
+    /**
+     * Returns the file as JavaScript with the locals injected, or null if the file is not transformed
+     * (excluded, or it doesn't mention any logger method) and should be compiled as usual.
+     * @param code The current contents, if the bundler already read (or transformed) the file.
+     */
+    public transform(fileName: string, code?: string): TransformResult | null {
+        const resolvedName = path.resolve(this.cwd, fileName);
+        if (!this.include.test(resolvedName) || this.exclude.test(resolvedName)) {
+            return null;
+        }
+        const text = code ?? ts.sys.readFile(resolvedName);
+        if (text === undefined || !this.callNames.some(name => text.includes(name))) {
+            return null;
+        }
+
+        const override = this.overrides.get(resolvedName);
+        if (!override || override.text !== text) {
+            this.overrides.set(resolvedName, { text, version: (override?.version ?? 0) + 1 });
+        }
+        this.rootFileNames.add(resolvedName);
+
+        const program = this.service.getProgram();
+        const sourceFile = program?.getSourceFile(resolvedName);
+        if (!program || !sourceFile) {
+            return null;
+        }
+
+        const diagnostics: ts.Diagnostic[] = [];
+        const extras = { addDiagnostic: (diagnostic: ts.Diagnostic) => diagnostics.push(diagnostic) - 1 };
+        let output = '';
+        let map: string | undefined;
+        program.emit(sourceFile, (outputName, outputText) => {
+            if (outputName.endsWith('.map')) {
+                map = outputText;
+            } else {
+                output = outputText.replace(sourceMapComment, '');
+            }
+        }, undefined, false, {
+            before: [createLogCallTransformer(program, this.transformerOptions, extras, this.state)],
+        });
+
+        const formatHost: ts.FormatDiagnosticsHost = {
+            getCanonicalFileName: name => name,
+            getCurrentDirectory: () => this.cwd,
+            getNewLine: () => '\n',
+        };
+        return {
+            code: output,
+            map,
+            errors: diagnostics.map(diagnostic => ts.formatDiagnostic(diagnostic, formatHost).trim()),
+        };
+    }
+
+    private readTsconfig(tsconfig: string | undefined): ts.ParsedCommandLine {
+        const configPath = tsconfig ? path.resolve(this.cwd, tsconfig) : ts.findConfigFile(this.cwd, ts.sys.fileExists);
+        if (!configPath) {
+            return { options: {}, fileNames: [], errors: [] };
+        }
+        const read = ts.readConfigFile(configPath, ts.sys.readFile);
+        if (read.error) {
+            throw new Error(`DynamicLogger: Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(read.error.messageText, '\n')}`);
+        }
+        return ts.parseJsonConfigFileContent(read.config, ts.sys, path.dirname(configPath), undefined, configPath);
+    }
+
+    private createHost(): ts.LanguageServiceHost {
+        return {
+            getScriptFileNames: () => [...this.rootFileNames],
+            getScriptVersion: fileName => {
+                const override = this.overrides.get(fileName);
+                if (override) {
+                    return `override-${override.version}`;
+                }
+                try {
+                    return String(fs.statSync(fileName).mtimeMs); // Files changed on disk get a new version
+                } catch {
+                    return '0';
+                }
+            },
+            getScriptSnapshot: fileName => {
+                const text = this.overrides.get(fileName)?.text ?? ts.sys.readFile(fileName);
+                return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+            },
+            getCurrentDirectory: () => this.cwd,
+            getCompilationSettings: () => this.compilerOptions,
+            getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+            fileExists: ts.sys.fileExists,
+            readFile: ts.sys.readFile,
+            readDirectory: ts.sys.readDirectory,
+            directoryExists: ts.sys.directoryExists,
+            getDirectories: ts.sys.getDirectories,
+        };
+    }
+}
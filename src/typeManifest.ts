@@ -0,0 +1,30 @@
+// typeManifest.ts
+import fs from 'fs';
+
+// Names of the locals injected at one call site, mapped to their type as printed by the type checker
+export type LocalTypes = Record<string, string>;
+
+/**
+ * Written by the transformer when `typeManifestPath` is set: for every uniqueKey,
+ * the injected locals of each call site that uses it.
+ *     { "USER_LOGIN": [{ "userId": "string", "attempts": "number" }] }
+ */
+export type TypeManifest = Record<string, LocalTypes[]>;
+
+function isLocalTypes(value: any): value is LocalTypes {
+    return !!value && typeof value === 'object' && !Array.isArray(value) &&
+        Object.values(value).every(type => typeof type === 'string');
+}
+
+export function isTypeManifest(value: any): value is TypeManifest {
+    return !!value && typeof value === 'object' && !Array.isArray(value) &&
+        Object.values(value).every(sites => Array.isArray(sites) && sites.every(isLocalTypes));
+}
+
+export function loadTypeManifest(manifestPath: string): TypeManifest {
+    const parsed = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    if (!isTypeManifest(parsed)) {
+        throw new Error(`DynamicLogger: '${manifestPath}' is not a valid type manifest.`);
+    }
+    return parsed;
+}
@@ -1,123 +1,354 @@
 // src/validators.ts
-import { parse, Options as AcornOptions, Node as AcornNode } from 'acorn';
-import { simple as walkSimple } from 'acorn-walk';
+import { parse, Options as AcornOptions } from 'acorn';
+import { recursive as walkRecursive, base as walkBase } from 'acorn-walk';
 
-interface Violation {
+export interface Violation {
     message: string;
-    location: string; // e.g., "Line X"
+    location: string; // e.g., "Line X, Column Y"
+    line: number;     // 1-based, 0 if unknown
+    column: number;   // 1-based, 0 if unknown
 }
 
-interface ValidationResult {
+export interface ValidationResult {
     isValid: boolean;
     violations: Violation[];
 }
 
 // List of globally safe objects/namespaces allowed for direct calls or method calls
-const safeGlobalObjectsAndNamespaces: string[] = [
+export const safeGlobalObjectsAndNamespaces: string[] = [
     'Object', 'Array', 'String', 'Number', 'Boolean', 'Date', 'RegExp',
     'Math', 'JSON', 'Symbol', 'Map', 'Set', 'WeakMap', 'WeakSet',
     'Promise', 'Intl'
 ];
 
-// Keywords and patterns that are disallowed
-const disallowedKeywords: { keyword: string, message: string }[] = [
-    { keyword: 'process', message: "Usage of 'process' object is disallowed." },
-    { keyword: 'while', message: "Usage of 'while' loops is disallowed." },
-    { keyword: 'for', message: "Usage of 'for' loops is disallowed." },
-    { keyword: 'constructor', message: "Usage of 'constructor' keyword is disallowed." },
-    { keyword: 'eval', message: "Usage of 'eval' is disallowed." },
-    { keyword: 'Function', message: "Usage of 'Function' constructor is disallowed." }, // Disallow new Function()
-    { keyword: 'require', message: "Usage of 'require' is disallowed." },
-    { keyword: 'import', message: "Usage of dynamic 'import()' is disallowed." }, // Static imports are fine, this targets dynamic
-    { keyword: 'window', message: "Usage of 'window' object is disallowed." },
-    { keyword: 'document', message: "Usage of 'document' object is disallowed." },
-    { keyword: 'global', message: "Usage of 'global' object is disallowed." }, // For Node.js global
-    { keyword: 'globalThis', message: "Usage of 'globalThis' is disallowed." },
-    { keyword: 'new', message: "Usage of 'new' to create objects is disallowed."},
-    { keyword: 'fs', message: "Usage of 'fs' to access the file system is disallowed."},
+// Plain value globals and helpers that can't reach anything outside the snippet
+export const safeGlobalValues: string[] = [
+    'undefined', 'NaN', 'Infinity', 'isNaN', 'isFinite', 'parseInt', 'parseFloat'
+];
+
+// Globals that must never be referenced, unless a local or a snippet binding shadows the name
+const disallowedGlobals: Record<string, string> = {
+    process: "Usage of 'process' object is disallowed.",
+    require: "Usage of 'require' is disallowed.",
+    module: "Usage of 'module' is disallowed.",
+    exports: "Usage of 'exports' is disallowed.",
+    eval: "Usage of 'eval' is disallowed.",
+    Function: "Usage of 'Function' constructor is disallowed.",
+    window: "Usage of 'window' object is disallowed.",
+    document: "Usage of 'document' object is disallowed.",
+    global: "Usage of 'global' object is disallowed.", // For Node.js global
+    globalThis: "Usage of 'globalThis' is disallowed.",
+    fs: "Usage of 'fs' to access the file system is disallowed.",
+    Reflect: "Usage of 'Reflect' is disallowed.",
+    Proxy: "Usage of 'Proxy' is disallowed.",
+    Buffer: "Usage of 'Buffer' is disallowed.",
+    fetch: "Usage of 'fetch' is disallowed.",
     // To prevent any kind of asynchronous task scheduling from the custom code
-    { keyword: 'async', message: "Usage of 'async' functions is disallowed." },
-    { keyword: 'await', message: "Usage of 'await' is disallowed." },
-    { keyword: 'setTimeout', message: "Usage of 'setTimeout' is disallowed." },
-    { keyword: 'setInterval', message: "Usage of 'setInterval' is disallowed." },
+    setTimeout: "Usage of 'setTimeout' is disallowed.",
+    setInterval: "Usage of 'setInterval' is disallowed.",
+    setImmediate: "Usage of 'setImmediate' is disallowed.",
+    queueMicrotask: "Usage of 'queueMicrotask' is disallowed.",
+};
+
+// Syntax that is disallowed wherever it appears
+const disallowedNodeTypes: Record<string, string> = {
+    ForStatement: "Usage of 'for' loops is disallowed.",
+    ForInStatement: "Usage of 'for' loops is disallowed.",
+    ForOfStatement: "Usage of 'for' loops is disallowed.",
+    WhileStatement: "Usage of 'while' loops is disallowed.",
+    DoWhileStatement: "Usage of 'while' loops is disallowed.",
+    NewExpression: "Usage of 'new' to create objects is disallowed.",
+    ImportExpression: "Usage of dynamic 'import()' is disallowed.",
+    AwaitExpression: "Usage of 'await' is disallowed.",
+    YieldExpression: "Usage of 'yield' is disallowed.",
+    AssignmentExpression: "Direct assignment expressions are disallowed.",
+    UpdateExpression: "Increment/decrement expressions are disallowed.",
+    ClassDeclaration: "Class definitions are disallowed.",
+    ClassExpression: "Class definitions are disallowed.",
+    TaggedTemplateExpression: "Tagged templates are disallowed.",
+    ThisExpression: "Usage of 'this' is disallowed.",
+};
+
+// Properties that lead to constructors or prototypes, and from there out of the sandbox
+const forbiddenProperties = ['constructor', '__proto__', 'prototype', '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__'];
+
+// Methods that may be called on locals, literals and other values: none of them mutate their receiver
+const pureMethods = new Set<string>([
+    // String
+    'at', 'charAt', 'charCodeAt', 'codePointAt', 'concat', 'endsWith', 'includes', 'indexOf', 'lastIndexOf',
+    'localeCompare', 'match', 'normalize', 'padEnd', 'padStart', 'repeat', 'replace', 'replaceAll', 'search',
+    'slice', 'split', 'startsWith', 'substring', 'substr', 'toLowerCase', 'toUpperCase', 'toLocaleLowerCase',
+    'toLocaleUpperCase', 'trim', 'trimStart', 'trimEnd',
+    // Array
+    'every', 'filter', 'find', 'findIndex', 'findLast', 'findLastIndex', 'flat', 'flatMap', 'join', 'map',
+    'reduce', 'reduceRight', 'some', 'entries', 'keys', 'values', 'toReversed', 'toSorted', 'toSpliced', 'with',
+    // Number / Date / Object
+    'toFixed', 'toPrecision', 'toExponential', 'toString', 'toLocaleString', 'valueOf', 'toISOString', 'toJSON',
+    'getTime', 'hasOwnProperty',
+    // Map / Set
+    'get', 'has',
+]);
+
+// Static methods of the safe globals that mutate objects or expose prototypes
+const disallowedStaticMethods = [
+    'Object.assign', 'Object.defineProperty', 'Object.defineProperties', 'Object.setPrototypeOf',
+    'Object.getPrototypeOf', 'Object.getOwnPropertyDescriptor', 'Object.getOwnPropertyDescriptors',
 ];
 
-function getLineNumberFromPosition(code: string, position: number): number {
-    return code.substring(0, position).split('\n').length;
-}
+// --- Scope Tracking ---
+class Scope {
+    private names = new Set<string>();
 
-function isSafeCallee(node: AcornNode): boolean {
-    const callee = (node as any).callee;
+    constructor(private parent: Scope | null) {}
 
-    // 1. Direct identifier call (e.g., String(), Object())
-    if (callee.type === 'Identifier') {
-        // Only allow if it's a known safe global constructor/function
-        return safeGlobalObjectsAndNamespaces.includes(callee.name);
+    public declare(name: string): void {
+        this.names.add(name);
     }
 
-    // 2. Member expression call (e.g., "hello".toUpperCase(), Math.max(), myArray.push())
-    if (callee.type === 'MemberExpression') {
-        let objectNode = callee.object;
+    public has(name: string): boolean {
+        return this.names.has(name) || (this.parent !== null && this.parent.has(name));
+    }
+}
 
-        // Traverse to the base object of the member expression chain
-        while (objectNode.type === 'MemberExpression') {
-            objectNode = objectNode.object;
-        }
+type WalkCallback = (node: any, scope: Scope, override?: string) => void;
 
-        // If the base is an Identifier (e.g., Math.max, JSON.parse)
-        if (objectNode.type === 'Identifier') {
-            // Only allow if the base identifier is a known safe global object
-            return safeGlobalObjectsAndNamespaces.includes(objectNode.name);
-        }
+function collectPatternNames(pattern: any, scope: Scope): void {
+    if (!pattern) {
+        return;
+    }
+    switch (pattern.type) {
+        case 'Identifier':
+            scope.declare(pattern.name);
+            break;
+        case 'ObjectPattern':
+            pattern.properties.forEach((property: any) =>
+                collectPatternNames(property.type === 'RestElement' ? property.argument : property.value, scope));
+            break;
+        case 'ArrayPattern':
+            pattern.elements.forEach((element: any) => collectPatternNames(element, scope));
+            break;
+        case 'AssignmentPattern':
+            collectPatternNames(pattern.left, scope);
+            break;
+        case 'RestElement':
+            collectPatternNames(pattern.argument, scope);
+            break;
+    }
+}
 
-        // If the base is a Literal (e.g., "string".toUpperCase(), [1,2].join())
-        // or other expression types that are generally safe to call methods on
-        // (like an ArrayExpression, ObjectExpression)
-        if (
-            objectNode.type === 'Literal' ||
-            objectNode.type === 'ArrayExpression' ||
-            objectNode.type === 'ObjectExpression' ||
-            objectNode.type === 'TemplateLiteral'
-        ) {
-            return true;
+// Declarations are visible in their whole block, so they are collected before the block is walked
+function declareHoistedBindings(statements: any[], scope: Scope): void {
+    for (const statement of statements) {
+        if (statement.type === 'VariableDeclaration') {
+            statement.declarations.forEach((declaration: any) => collectPatternNames(declaration.id, scope));
+        } else if ((statement.type === 'FunctionDeclaration' || statement.type === 'ClassDeclaration') && statement.id) {
+            scope.declare(statement.id.name);
         }
     }
-    
-    // Case 3: Allow immediate invocation of function expressions (IIFEs)
-    // This means the `callee` itself is a function definition being called.
-    if (callee.type === 'FunctionExpression' || callee.type === 'ArrowFunctionExpression') {
-        return true;
+}
+
+function getStaticPropertyName(node: any): string | null {
+    if (!node.computed) {
+        return node.property?.name ?? node.key?.name ?? null;
+    }
+    const key = node.property ?? node.key;
+    if (key.type === 'Literal') {
+        return String(key.value);
+    }
+    if (key.type === 'TemplateLiteral' && key.expressions.length === 0) {
+        return key.quasis[0].value.cooked;
     }
-    // Potentially allow calls on results of other safe calls, this part is tricky
-    // For now, we are somewhat restrictive on chained calls if the base isn't clearly safe.
-    return false; // Disallow other types of callees (e.g., direct function expressions as callees)
+    return null;
 }
 
+// `x[key]` reads a property the validator can't name ('constr' + 'uctor'), so only literal keys are allowed
+const dynamicKeyViolation = 'Computed property access is only allowed with a string or number literal.';
+
+function hasDynamicKey(node: any): boolean {
+    if (!node.computed) {
+        return false;
+    }
+    const key = node.property ?? node.key;
+    if (key.type === 'Literal') {
+        return typeof key.value !== 'string' && typeof key.value !== 'number';
+    }
+    return key.type !== 'TemplateLiteral' || key.expressions.length > 0;
+}
 
-export function validateTSCode(code: string): ValidationResult {
+/**
+ * Validates a CustomLoggingCode snippet against its AST.
+ * @param code The snippet (a JavaScript expression, or an IIFE).
+ * @param availableLocals Names of the locals the snippet will run with. When given, any identifier that is
+ *   neither one of them, a binding declared inside the snippet, nor a safe global is reported.
+ *   When omitted, unknown identifiers are allowed (they might be locals).
+ */
+export function validateTSCode(code: string, availableLocals?: string[]): ValidationResult {
     const violations: Violation[] = [];
-    const lines = code.split('\n');
-
-    // Check 1: Disallowed keywords
-    for (let line_number = 0; line_number < lines.length; line_number++) {
-        const line = lines[line_number];
-        for (const forbidden of disallowedKeywords) {
-            // Use regex to match whole words to avoid partial matches (e.g., 'processing' for 'process')
-            const regex = new RegExp(`\\b${forbidden.keyword}\\b`);
-            if (regex.test(line)) {
-                violations.push({
-                    message: forbidden.message,
-                    location: `Line ${line_number + 1}`
-                });
+    const locals = new Set(availableLocals ?? []);
+
+    const report = (message: string, node: any) => {
+        const line = node?.loc?.start.line ?? 0;
+        const column = node?.loc ? node.loc.start.column + 1 : 0;
+        violations.push({
+            message,
+            location: line ? `Line ${line}, Column ${column}` : 'Unknown location',
+            line,
+            column,
+        });
+    };
+
+    // A name is a local if it is injected and not shadowed by a binding inside the snippet
+    const isInjectedLocal = (name: string, scope: Scope) => !scope.has(name) && locals.has(name);
+    const isSafeGlobal = (name: string, scope: Scope) => !scope.has(name) && !locals.has(name) &&
+        (safeGlobalObjectsAndNamespaces.includes(name) || safeGlobalValues.includes(name));
+
+    const checkCallee = (node: any, scope: Scope) => {
+        let callee = node.callee;
+        if (callee.type === 'ChainExpression') {
+            callee = callee.expression;
+        }
+
+        // 1. Direct identifier call (e.g., String(), helper() declared in the snippet)
+        if (callee.type === 'Identifier') {
+            if (scope.has(callee.name) || isSafeGlobal(callee.name, scope)) {
+                return;
             }
+            if (locals.has(callee.name)) {
+                report(`Calling injected local '${callee.name}' is disallowed.`, callee);
+            } else if (!disallowedGlobals[callee.name]) { // Those are reported as identifiers
+                report(`Disallowed function call: ${callee.name}`, callee);
+            }
+            return;
         }
-    }
 
-    if (violations.length > 0) {
-        return { isValid: false, violations };
+        // 2. Method call (e.g., Math.max(), userId.includes('@'), "a".toUpperCase())
+        if (callee.type === 'MemberExpression') {
+            const methodName = getStaticPropertyName(callee);
+            if (methodName === null) {
+                report("Computed method calls are disallowed.", callee.property);
+                return;
+            }
+            const object = callee.object;
+            if (object.type === 'Identifier' && isSafeGlobal(object.name, scope)) {
+                const qualifiedName = `${object.name}.${methodName}`;
+                if (disallowedStaticMethods.includes(qualifiedName)) {
+                    report(`Disallowed function call: ${qualifiedName}`, callee);
+                }
+                return;
+            }
+            if (!pureMethods.has(methodName)) {
+                report(`Disallowed method call: .${methodName}()`, callee.property);
+            }
+            return;
+        }
+
+        // 3. Immediate invocation of function expressions (IIFEs)
+        if (callee.type === 'FunctionExpression' || callee.type === 'ArrowFunctionExpression') {
+            return;
+        }
+
+        report("Disallowed function call: only safe globals, snippet functions, pure methods and IIFEs can be called.", callee);
+    };
+
+    const visitFunction = (node: any, scope: Scope, c: WalkCallback) => {
+        if (node.async) {
+            report("Usage of 'async' functions is disallowed.", node);
+        }
+        if (node.generator) {
+            report("Generator functions are disallowed.", node);
+        }
+        const functionScope = new Scope(scope);
+        if (node.id && node.type !== 'FunctionDeclaration') {
+            functionScope.declare(node.id.name); // A named function expression sees its own name
+        }
+        node.params.forEach((param: any) => collectPatternNames(param, functionScope));
+        node.params.forEach((param: any) => c(param, functionScope, 'Pattern'));
+        if (node.body.type === 'BlockStatement') {
+            declareHoistedBindings(node.body.body, functionScope);
+            node.body.body.forEach((statement: any) => c(statement, functionScope, 'Statement'));
+        } else {
+            c(node.body, functionScope, 'Expression');
+        }
+    };
+
+    const visitors: Record<string, (node: any, scope: Scope, c: WalkCallback) => void> = {
+        Program(node, scope, c) {
+            declareHoistedBindings(node.body, scope);
+            node.body.forEach((statement: any) => c(statement, scope, 'Statement'));
+        },
+        BlockStatement(node, scope, c) {
+            const blockScope = new Scope(scope);
+            declareHoistedBindings(node.body, blockScope);
+            node.body.forEach((statement: any) => c(statement, blockScope, 'Statement'));
+        },
+        CatchClause(node, scope, c) {
+            const catchScope = new Scope(scope);
+            collectPatternNames(node.param, catchScope);
+            c(node.body, catchScope);
+        },
+        Function: visitFunction,
+        // Identifiers in expression position are references; bindings go through 'VariablePattern'
+        Identifier(node, scope) {
+            const name = node.name;
+            if (scope.has(name) || locals.has(name)) {
+                return;
+            }
+            if (disallowedGlobals[name]) {
+                report(disallowedGlobals[name], node);
+            } else if (availableLocals && !isSafeGlobal(name, scope)) {
+                report(`Unknown identifier '${name}'.`, node);
+            }
+        },
+        MemberExpression(node, scope, c) {
+            const propertyName = getStaticPropertyName(node);
+            if (propertyName !== null && forbiddenProperties.includes(propertyName)) {
+                report(`Access to property '${propertyName}' is disallowed.`, node.property);
+            } else if (hasDynamicKey(node)) {
+                report(dynamicKeyViolation, node.property);
+            }
+            (walkBase as any).MemberExpression(node, scope, c);
+        },
+        Property(node, scope, c) {
+            // Covers object literals ({ __proto__: x }) and destructuring ({ constructor } = x)
+            const keyName = getStaticPropertyName(node);
+            if (keyName !== null && forbiddenProperties.includes(keyName)) {
+                report(`Access to property '${keyName}' is disallowed.`, node.key);
+            }
+            (walkBase as any).Property(node, scope, c);
+        },
+        ObjectPattern(node, scope, c) {
+            node.properties.forEach((property: any) => {
+                const keyName = property.type === 'Property' ? getStaticPropertyName(property) : null;
+                if (keyName !== null && forbiddenProperties.includes(keyName)) {
+                    report(`Access to property '${keyName}' is disallowed.`, property.key);
+                } else if (property.type === 'Property' && hasDynamicKey(property)) {
+                    report(dynamicKeyViolation, property.key);
+                }
+            });
+            (walkBase as any).ObjectPattern(node, scope, c);
+        },
+        CallExpression(node, scope, c) {
+            checkCallee(node, scope);
+            (walkBase as any).CallExpression(node, scope, c);
+        },
+        UnaryExpression(node, scope, c) {
+            if (node.operator === 'delete') {
+                report("Usage of 'delete' is disallowed.", node);
+            }
+            (walkBase as any).UnaryExpression(node, scope, c);
+        },
+    };
+
+    for (const [type, message] of Object.entries(disallowedNodeTypes)) {
+        const visitBase = (walkBase as any)[type];
+        visitors[type] = (node, scope, c) => {
+            report(message, node);
+            if (visitBase) {
+                visitBase(node, scope, c);
+            }
+        };
     }
 
-    // Check 2: AST-based validation for assignments and function calls
     try {
         const acornOptions: AcornOptions = {
             ecmaVersion: 2022,
@@ -125,46 +356,16 @@ export function validateTSCode(code: string): ValidationResult {
             locations: true,
         };
         const ast = parse(code, acornOptions);
-
-        walkSimple(ast, {
-            CallExpression(node: AcornNode) { 
-                // Filtering function calls
-                if (!isSafeCallee(node as AcornNode)) {
-                    const location = (node as any).loc ? `Line ${getLineNumberFromPosition(code, (node as any).start)}` : 'Unknown location';
-                    // Attempt to describe the call
-                    let calleeDescription = 'unknown function';
-                    const callee = (node as any).callee;
-                    if (callee.type === 'Identifier') {
-                        calleeDescription = callee.name;
-                    } else if (callee.type === 'MemberExpression') {
-                        try {
-                            // Simple reconstruction, might not be perfect
-                            let obj = callee.object.type === 'Identifier' ? callee.object.name : '[expr]';
-                            let prop = callee.property.type === 'Identifier' ? callee.property.name : '[expr]';
-                            calleeDescription = `${obj}.${prop}`;
-                        } catch { /* ignore */ }
-                    }
-                    violations.push({
-                        message: `Disallowed function call: ${calleeDescription}`,
-                        location: location,
-                    });
-                }
-            },
-            // Filtering assignment expressions
-            AssignmentExpression(node: AcornNode) {
-                 violations.push({
-                    message: "Direct assignment expressions are disallowed.",
-                    location: (node as any).loc ? `Line ${getLineNumberFromPosition(code, (node as any).start)}` : 'Unknown location',
-                });
-            },
-            // Add more disallowed node types as needed for stricter validation
-        });
-
+        walkRecursive(ast, new Scope(null), visitors as any);
     } catch (error: any) {
         // This catch is for Acorn parsing errors (syntax errors in the provided code)
+        const line = error.loc?.line ?? 0;
+        const column = error.loc ? error.loc.column + 1 : 0;
         violations.push({
             message: `Syntax error in custom code: ${error.message}`,
-            location: error.loc ? `Line ${error.loc.line}` : 'Unknown location'
+            location: line ? `Line ${line}, Column ${column}` : 'Unknown location',
+            line,
+            column,
         });
         return { isValid: false, violations };
     }
@@ -173,4 +374,4 @@ export function validateTSCode(code: string): ValidationResult {
         isValid: violations.length === 0,
         violations: violations,
     };
-}
\ No newline at end of file
+}
@@ -0,0 +1,180 @@
+// variablePaths.ts
+// `VariablesToLog` entries select a local (or ALS value) or a part of it:
+//     user                       the whole local
+//     req.headers.user-agent     nested properties; names may contain anything but '.', '[', ']' and spaces
+//     order.items[0].sku         array indexes
+//     req.headers["x-id"]        quoted names
+//     user.*  /  items[*].sku    every own property or item
+//     order.items[0].sku as sku  an alias for the logged name
+import { IncomingMessage } from 'http';
+import { types } from 'util';
+import { LruCache } from './lruCache';
+
+export type PathSegment =
+    | { kind: 'key'; name: string }
+    | { kind: 'index'; index: number }
+    | { kind: 'wildcard' };
+
+export interface VariablePath {
+    root: string;            // Name of the local or ALS value
+    segments: PathSegment[];
+    outputName: string;      // The alias, or the path as written
+}
+
+const namePattern = /^[^.\[\]\s]+/;
+const aliasPattern = /^(.*?)\s+as\s+([^\s]+)$/;
+const parsedPaths = new LruCache<string, VariablePath>(1000);
+
+/**
+ * Parses a `VariablesToLog` entry. Throws a descriptive error for invalid syntax.
+ */
+export function parseVariablePath(spec: string): VariablePath {
+    const cached = parsedPaths.get(spec);
+    if (cached) {
+        return cached;
+    }
+
+    const trimmed = spec.trim();
+    const aliasMatch = aliasPattern.exec(trimmed);
+    const path = aliasMatch ? aliasMatch[1].trim() : trimmed;
+
+    const rootMatch = namePattern.exec(path);
+    if (!rootMatch) {
+        throw new Error(`'${spec}' doesn't start with a variable name.`);
+    }
+    const segments: PathSegment[] = [];
+    let rest = path.slice(rootMatch[0].length);
+    while (rest.length > 0) {
+        let match: RegExpExecArray | null;
+        if ((match = /^\.\*/.exec(rest)) || (match = /^\[\*\]/.exec(rest))) {
+            segments.push({ kind: 'wildcard' });
+        } else if ((match = /^\.([^.\[\]\s]+)/.exec(rest))) {
+            segments.push({ kind: 'key', name: match[1] });
+        } else if ((match = /^\[(\d+)\]/.exec(rest))) {
+            segments.push({ kind: 'index', index: Number(match[1]) });
+        } else if ((match = /^\[("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')\]/.exec(rest))) {
+            segments.push({ kind: 'key', name: unquote(match[1]) });
+        } else {
+            throw new Error(`Unexpected '${rest}' in '${spec}'.`);
+        }
+        rest = rest.slice(match[0].length);
+    }
+
+    const parsed: VariablePath = { root: rootMatch[0], segments, outputName: aliasMatch ? aliasMatch[2] : path };
+    parsedPaths.set(spec, parsed);
+    return parsed;
+}
+
+function unquote(quoted: string): string {
+    return quoted.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
+// The names a path reads, for redaction: `user.password as pw` is still a password
+export function getPathKeyNames(path: VariablePath): string[] {
+    return [path.root, ...path.segments.flatMap(segment => segment.kind === 'key' ? [segment.name] : [])];
+}
+
+// Built-in getters that only read (or lazily build and cache) a value, so `req.headers.user-agent`
+// and `url.pathname` work. No other accessor is ever called.
+const safeGetters = new Set<Function>();
+for (const [prototype, names] of [
+    [IncomingMessage.prototype, ['headers', 'headersDistinct', 'trailers', 'trailersDistinct']],
+    [URL.prototype, ['href', 'origin', 'protocol', 'username', 'host', 'hostname', 'port', 'pathname', 'search', 'hash']],
+] as [object, string[]][]) {
+    for (const name of names) {
+        const getter = Object.getOwnPropertyDescriptor(prototype, name)?.get;
+        if (getter) {
+            safeGetters.add(getter);
+        }
+    }
+}
+
+function findDescriptor(container: object, key: string | number): PropertyDescriptor | undefined {
+    const own = Object.getOwnPropertyDescriptor(container, key);
+    if (own) {
+        return own;
+    }
+    // Inherited properties are only followed for the allowed getters, never for methods or other data
+    for (let prototype = Object.getPrototypeOf(container); prototype; prototype = Object.getPrototypeOf(prototype)) {
+        const inherited = Object.getOwnPropertyDescriptor(prototype, key);
+        if (inherited) {
+            return inherited.get && safeGetters.has(inherited.get) ? inherited : undefined;
+        }
+    }
+    return undefined;
+}
+
+export type ResolvedPath = { found: true; value: unknown } | { found: false };
+
+const notFound: ResolvedPath = { found: false };
+
+/**
+ * Reads one step without running user code: own data properties, array items, Map entries and the
+ * built-in getters in `safeGetters`. Proxies are never looked into, their traps could run anything.
+ */
+function readStep(container: unknown, key: string | number): ResolvedPath {
+    if (container === null || (typeof container !== 'object' && typeof container !== 'function') || types.isProxy(container)) {
+        return notFound;
+    }
+    if (container instanceof Map) {
+        return container.has(key) ? { found: true, value: container.get(key) } : notFound;
+    }
+    const descriptor = findDescriptor(container, key);
+    if (descriptor && 'value' in descriptor) {
+        return { found: true, value: descriptor.value };
+    }
+    if (descriptor?.get && safeGetters.has(descriptor.get)) {
+        return { found: true, value: descriptor.get.call(container) };
+    }
+    return notFound;
+}
+
+function ownEntries(container: unknown): [string, unknown][] | null {
+    if (container === null || typeof container !== 'object' || types.isProxy(container)) {
+        return null;
+    }
+    if (container instanceof Map) {
+        return [...container.entries()].map(([key, value]): [string, unknown] => [String(key), value]);
+    }
+    const entries: [string, unknown][] = [];
+    for (const key of Object.keys(container)) {
+        const descriptor = Object.getOwnPropertyDescriptor(container, key);
+        if (descriptor && 'value' in descriptor) {
+            entries.push([key, descriptor.value]);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Follows the path's segments from the root value. A wildcard collects the rest of the path for every
+ * own property (an object) or item (an array), leaving out those where it isn't found.
+ */
+export function resolveVariablePath(rootValue: unknown, segments: PathSegment[]): ResolvedPath {
+    let current = rootValue;
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        if (segment.kind === 'wildcard') {
+            const entries = ownEntries(current);
+            if (!entries) {
+                return notFound;
+            }
+            const rest = segments.slice(i + 1);
+            const resolved = entries
+                .map(([key, value]): [string, ResolvedPath] => [key, resolveVariablePath(value, rest)])
+                .filter((entry): entry is [string, { found: true; value: unknown }] => entry[1].found);
+            return {
+                found: true,
+                value: Array.isArray(current)
+                    ? resolved.map(([, result]) => result.value)
+                    : Object.fromEntries(resolved.map(([key, result]) => [key, result.value])),
+            };
+        }
+        const step = readStep(current, segment.kind === 'key' ? segment.name : segment.index);
+        if (!step.found) {
+            return notFound;
+        }
+        current = step.value;
+    }
+    return { found: true, value: current };
+}
@@ -0,0 +1,224 @@
+// test/logCallTransformer.test.ts
+// Which bindings the transformer captures at a call, for each way a local can be declared.
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as ts from 'typescript';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLogCallTransformer, resolveTransformerOptions } from '../src/transformers/log-call-transformer';
+
+const loggerModule = `
+export class DynamicLogger {
+    static create(fetcher: unknown, logFunction: unknown, options?: { namespace?: string }): DynamicLogger { return new DynamicLogger(); }
+    child(fields: object): DynamicLogger { return this; }
+    dynamicLog(uniqueKey?: string, metadata?: unknown, locals?: unknown): void {}
+}
+export function dynamicLog(uniqueKey?: string, metadata?: unknown, locals?: unknown): void {}
+`;
+
+const helpersModule = `
+export const version = '1.0.0';
+export interface Options { verbose: boolean }
+`;
+
+// Compiles `source` as app.ts next to a stand-in logger module and returns the emitted JavaScript
+function transform(source: string): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dl-transformer-'));
+    try {
+        fs.writeFileSync(path.join(dir, 'dynamicLogger.ts'), loggerModule);
+        fs.writeFileSync(path.join(dir, 'helpers.ts'), helpersModule);
+        const appFile = path.join(dir, 'app.ts');
+        fs.writeFileSync(appFile, source);
+
+        const program = ts.createProgram([appFile], {
+            target: ts.ScriptTarget.ES2020,
+            module: ts.ModuleKind.CommonJS,
+            strict: true,
+        });
+        let output = '';
+        program.emit(program.getSourceFile(appFile), (fileName, text) => {
+            if (fileName.endsWith('.js')) {
+                output = text;
+            }
+        }, undefined, false, {
+            before: [createLogCallTransformer(program, resolveTransformerOptions())],
+        });
+        return output;
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+// Names of the locals injected into the call with the given key
+function capturedAt(output: string, key: string): string[] {
+    const call = output.match(new RegExp(`\\(["']${key}["'], [^,]+, (undefined|\\{[^}]*\\})\\)`));
+    assert.ok(call, `No rewritten call with key '${key}' in:\n${output}`);
+    if (call[1] === 'undefined') {
+        return [];
+    }
+    return call[1].slice(1, -1).split(',').map(part => part.split(':')[0].trim()).filter(Boolean);
+}
+
+function assertCaptured(output: string, key: string, expected: string[], notExpected: string[] = []): void {
+    const captured = capturedAt(output, key);
+    expected.forEach(name => assert.ok(captured.includes(name), `'${name}' is not captured at ${key}: ${captured.join(', ')}`));
+    notExpected.forEach(name => assert.ok(!captured.includes(name), `'${name}' is captured at ${key}`));
+}
+
+test('captures the catch binding and the locals of the catch block', () => {
+    const output = transform(`
+import { dynamicLog } from './dynamicLogger';
+export function run(): void {
+    try {
+        JSON.parse('{');
+    } catch (err) {
+        const note = 'parse failed';
+        dynamicLog('CATCH');
+    }
+}
+`);
+    assertCaptured(output, 'CATCH', ['err', 'note']);
+});
+
+test('captures for-of and for loop variables', () => {
+    const output = transform(`
+import { dynamicLog } from './dynamicLogger';
+export function run(items: string[]): void {
+    for (const item of items) {
+        dynamicLog('FOR_OF');
+    }
+    for (let i = 0; i < items.length; i++) {
+        dynamicLog('FOR');
+    }
+}
+`);
+    assertCaptured(output, 'FOR_OF', ['item', 'items'], ['i']);
+    assertCaptured(output, 'FOR', ['i', 'items'], ['item']);
+});
+
+test('captures every name bound by nested destructuring', () => {
+    const output = transform(`
+import { dynamicLog } from './dynamicLogger';
+export function run(order: { id: string; customer: { name: string }; lines: number[] }): void {
+    const { id, customer: { name }, lines: [first, ...others] } = order;
+    dynamicLog('DESTRUCTURING');
+}
+`);
+    assertCaptured(output, 'DESTRUCTURING', ['id', 'name', 'first', 'others', 'order'], ['customer', 'lines']);
+});
+
+test('captures rest parameters', () => {
+    const output = transform(`
+import { dynamicLog } from './dynamicLogger';
+export function run(label: string, ...values: number[]): void {
+    dynamicLog('REST');
+}
+`);
+    assertCaptured(output, 'REST', ['label', 'values']);
+});
+
+test('leaves out imports, function and class declarations', () => {
+    const output = transform(`
+import { dynamicLog as log } from './dynamicLogger';
+import { version as appVersion, Options } from './helpers';
+class Cart {}
+export function run(options: Options): string {
+    const label = appVersion;
+    log('DECLARATIONS');
+    return helper() + label;
+    function helper(): string {
+        return String(new Cart());
+    }
+}
+`);
+    assertCaptured(output, 'DECLARATIONS', ['label', 'options'], ['appVersion', 'Options', 'log', 'helper', 'Cart', 'run']);
+});
+
+test('leaves out bindings that are declared after the call', () => {
+    const output = transform(`
+import { dynamicLog } from './dynamicLogger';
+export function run(): void {
+    dynamicLog('BEFORE_DECLARATION');
+    const later = 1;
+    var hoistedVar = 2;
+}
+`);
+    assertCaptured(output, 'BEFORE_DECLARATION', [], ['later', 'hoistedVar']);
+});
+
+test('skips bindings in their temporal dead zone and warns about them', () => {
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+        const output = transform(`
+import { dynamicLog } from './dynamicLogger';
+export function run(): void {
+    early();
+    const config = { level: 'info' };
+    function early(): void {
+        dynamicLog('TDZ_HOISTED');
+    }
+    const result = (() => {
+        dynamicLog('TDZ_INITIALIZER');
+        return config;
+    })();
+}
+`);
+        assertCaptured(output, 'TDZ_HOISTED', [], ['config', 'result']);
+        assertCaptured(output, 'TDZ_INITIALIZER', ['config'], ['result']);
+
+        const warnings = warn.mock.calls.map(call => String(call.arguments[0]));
+        assert.ok(warnings.some(message => message.includes(`'config' (the hoisted function 'early' can run before its declaration)`)), warnings.join('\n'));
+        assert.ok(warnings.some(message => message.includes(`'result' (its initializer contains the call)`)), warnings.join('\n'));
+    } finally {
+        warn.mock.restore();
+    }
+});
+
+test('rewrites and checks logger calls nested in the arguments of a logger call', () => {
+    const error = mock.method(console, 'error', () => {});
+    try {
+        const output = transform(`
+import { dynamicLog } from './dynamicLogger';
+export function run(items: string[]): void {
+    const count = items.length;
+    dynamicLog('OUTER', items.map(item => {
+        const upper = item.toUpperCase();
+        dynamicLog('INNER');
+        dynamicLog('OUTER');
+        return upper;
+    }));
+}
+`);
+        // The outer call's own locals follow the callback
+        assert.match(output, /\}\), \{\s*items,\s*count\s*\}\);/);
+        assertCaptured(output, 'INNER', ['count', 'items', 'item', 'upper']);
+        const errors = error.mock.calls.map(call => String(call.arguments[0]));
+        assert.equal(errors.length, 1, errors.join('\n'));
+        assert.match(errors[0], /The key 'OUTER' is already used at .*app\.ts:5:16/);
+    } finally {
+        error.mock.restore();
+    }
+});
+
+test('reports duplicate keys only within a namespace', () => {
+    const error = mock.method(console, 'error', () => {});
+    try {
+        transform(`
+import { DynamicLogger } from './dynamicLogger';
+const billing = DynamicLogger.create(null, null, { namespace: 'billing' });
+const shipping = DynamicLogger.create(null, null, { namespace: 'shipping' });
+const requestLogger = billing.child({ requestId: 'r1' });
+export function run(): void {
+    billing.dynamicLog('SHARED');
+    shipping.dynamicLog('SHARED');
+    requestLogger.dynamicLog('SHARED');
+}
+`);
+        const errors = error.mock.calls.map(call => String(call.arguments[0]));
+        assert.equal(errors.length, 1, errors.join('\n'));
+        assert.match(errors[0], /app\.ts\(9,30\): error: \[auto-log-vars\] The key 'SHARED' is already used at .*app\.ts:7:24/);
+    } finally {
+        error.mock.restore();
+    }
+});
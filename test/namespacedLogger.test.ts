@@ -0,0 +1,41 @@
+// test/namespacedLogger.test.ts
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { DynamicLogger, LoggerConfig, LogRecord } from '../src/dynamicLogger';
+
+after(() => DynamicLogger.disposeAll());
+
+test('a namespaced logger fetches the prefixed key but type-checks and routes by the key from the call site', async () => {
+    const fetches: unknown[][] = [];
+    const configs: Record<string, Partial<LoggerConfig>> = {
+        'billing:PAYMENT_FAILED': { VariablesToLog: [], SamplingRate: 1, PrefixMessage: '', CustomLoggingCode: 'amount.toUpperCase()' },
+        'billing:PAYMENT_RETRIED': { VariablesToLog: [], SamplingRate: 1, PrefixMessage: '', CustomLoggingCode: 'amount * 2' },
+    };
+    const records: LogRecord[] = [];
+    const logger = DynamicLogger.create(async (key, context) => {
+        fetches.push([key, context]);
+        return configs[key] ?? null;
+    }, () => {}, {
+        namespace: 'billing',
+        typeManifest: {
+            PAYMENT_FAILED: [{ amount: 'number' }],
+            PAYMENT_RETRIED: [{ amount: 'number' }],
+        },
+        sinks: [{ sink: { name: 'payments', write: record => { records.push(record); } }, filter: { keys: ['PAYMENT_*'] } }],
+    });
+
+    await logger.dynamicLog('PAYMENT_FAILED', 'Card declined', { amount: 42 });
+    await logger.dynamicLog('PAYMENT_RETRIED', 'Retried', { amount: 42 });
+
+    assert.deepEqual(fetches, [
+        ['billing:PAYMENT_FAILED', { key: 'PAYMENT_FAILED', namespace: 'billing' }],
+        ['billing:PAYMENT_RETRIED', { key: 'PAYMENT_RETRIED', namespace: 'billing' }],
+    ]);
+    assert.equal(records.length, 2);
+    const [failed, retried] = records;
+    assert.equal(failed.key, 'billing:PAYMENT_FAILED');
+    assert.equal(failed.namespace, 'billing');
+    // The type manifest knows `amount` is a number, so the snippet is rejected before it runs
+    assert.match(failed.customOutput!, /^<ValidationViolations: .*toUpperCase/);
+    assert.equal(retried.customOutput, '84');
+});
@@ -0,0 +1,32 @@
+// test/sandbox.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runInSandbox } from '../src/sandbox';
+
+const options = { timeoutMs: 1000, maxOutputBytes: 100000 };
+
+test('copies an object that is reached twice in full, and keeps cycles out', () => {
+    const shared = { id: 1 };
+    const node: any = { left: shared, right: shared };
+    node.self = node;
+    const output = runInSandbox('JSON.stringify([node.right, node.self, node.left])', { node }, options);
+    assert.equal(output, '[{"id":1},"[Circular]",{"id":1}]');
+});
+
+test('bounds the depth and the size of the copied locals', () => {
+    let deep: any = { value: 'bottom' };
+    for (let i = 0; i < 20; i++) {
+        deep = { next: deep };
+    }
+    const large = Array.from({ length: 50000 }, (_, i) => i);
+    // One object referenced a thousand times is walked once, but each reference still counts towards the limit
+    const row = Object.fromEntries(Array.from({ length: 100 }, (_, i) => [`column${i}`, i]));
+    const rows = Array.from({ length: 1000 }, () => row);
+
+    const depth = runInSandbox('JSON.stringify(deep.next.next.next.next.next.next.next.next)', { deep }, options);
+    assert.equal(depth, '"[MaxDepth]"');
+    const size = runInSandbox('large.length + " " + large[large.length - 1]', { large }, options);
+    assert.equal(size, '10000 [Truncated]');
+    const shared = runInSandbox('rows.length < 1000 && rows[0].column99 === 99 && rows[rows.length - 1]', { rows }, options);
+    assert.equal(shared, '[Truncated]');
+});
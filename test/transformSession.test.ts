@@ -0,0 +1,44 @@
+// test/transformSession.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TransformSession } from '../src/transformers/transform-session';
+
+const transformerPath = path.resolve(__dirname, '../src/transformers/auto-log-vars-transformer.ts');
+
+const loggerModule = `
+export function dynamicLog(uniqueKey?: string, metadata?: unknown, locals?: unknown): void {}
+`;
+
+test('reports duplicate keys when the tsconfig also lists the ts-patch plugin', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dl-session-'));
+    try {
+        // The plugin entry is what a project built with the patched tsc has; the session must not run it a second time
+        fs.writeFileSync(path.join(dir, 'tsconfig.json'), JSON.stringify({
+            compilerOptions: {
+                target: 'ES2020',
+                module: 'commonjs',
+                strict: true,
+                plugins: [{ transform: transformerPath, type: 'program' }],
+            },
+            include: ['*.ts'],
+        }));
+        fs.writeFileSync(path.join(dir, 'dynamicLogger.ts'), loggerModule);
+        fs.writeFileSync(path.join(dir, 'cart.ts'), `import { dynamicLog } from './dynamicLogger';\nexport function add(): void { dynamicLog('CHECKOUT'); }\n`);
+        fs.writeFileSync(path.join(dir, 'app.ts'), `import { dynamicLog } from './dynamicLogger';\nexport function pay(): void { dynamicLog('CHECKOUT'); }\n`);
+
+        const session = new TransformSession({ cwd: dir });
+        const cart = session.transform('cart.ts');
+        const app = session.transform('app.ts');
+
+        assert.ok(cart && app);
+        assert.deepEqual(cart.errors, []);
+        assert.equal(app.errors.length, 1);
+        assert.match(app.errors[0], /error TS90001: \[auto-log-vars\] The key 'CHECKOUT' is already used at cart\.ts:2:/);
+        assert.match(app.code, /dynamicLog\('CHECKOUT', undefined, undefined\)/);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,22 @@
+// test/validators.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateTSCode } from '../src/validators';
+
+function messages(code: string, locals?: string[]): string[] {
+    return validateTSCode(code, locals).violations.map(violation => violation.message);
+}
+
+test('rejects computed member access with a key that is not a literal', () => {
+    const dynamic = 'Computed property access is only allowed with a string or number literal.';
+    assert.deepEqual(messages(`user['constr' + 'uctor']`, ['user']), [dynamic]);
+    assert.deepEqual(messages(`user[key]`, ['user', 'key']), [dynamic]);
+    assert.deepEqual(messages(`user[\`\${key}\`]`, ['user', 'key']), [dynamic]);
+    assert.deepEqual(messages(`(({ [key]: value }) => value)(user)`, ['user', 'key']), [dynamic]);
+    assert.deepEqual(messages(`user['constructor']`, ['user']), [`Access to property 'constructor' is disallowed.`]);
+});
+
+test('allows string literal keys and numeric indexes', () => {
+    assert.deepEqual(messages(`user['first-name'] + user[\`last\`] + items[0].sku`, ['user', 'items']), []);
+    assert.deepEqual(messages(`(({ ['id']: id }) => id)(user)`, ['user']), []);
+});